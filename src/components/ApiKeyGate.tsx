@@ -0,0 +1,27 @@
+import type { ReactNode } from "react";
+import { ApiKeySetup } from "./ApiKeySetup";
+import { UnlockScreen } from "./UnlockScreen";
+import { useApiKey } from "@/hooks/use-api-key";
+import { useIdleLock } from "@/hooks/use-idle-lock";
+
+interface ApiKeyGateProps {
+  children: ReactNode;
+}
+
+/** Renders the app only once there is a decrypted API key in memory */
+export const ApiKeyGate = ({ children }: ApiKeyGateProps) => {
+  const { status } = useApiKey();
+  useIdleLock(status === "unlocked");
+
+  switch (status) {
+    case "missing":
+      // Saving the key also unlocks it, which re-renders this gate
+      return <ApiKeySetup />;
+    case "legacy":
+      return <UnlockScreen mode="migrate" />;
+    case "locked":
+      return <UnlockScreen mode="unlock" />;
+    default:
+      return <>{children}</>;
+  }
+};
@@ -0,0 +1,75 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useApiKey } from "@/hooks/use-api-key";
+import { setActiveApiKeyProfile } from "@/lib/api-key";
+import { KeyRound, Settings } from "lucide-react";
+
+const FOLLOW_ACTIVE = "__active__";
+
+interface ApiKeyProfileSwitcherProps {
+  /** Profile this conversation is bound to, if any */
+  profileId?: string;
+  onProfileChange: (profileId: string | undefined) => void;
+}
+
+export const ApiKeyProfileSwitcher = ({ profileId, onProfileChange }: ApiKeyProfileSwitcherProps) => {
+  const navigate = useNavigate();
+  const { profiles, activeProfileId } = useApiKey();
+
+  // A binding to a removed profile behaves like following the active key
+  const boundProfile = profiles.find(profile => profile.id === profileId);
+  const shownProfile = boundProfile ?? profiles.find(profile => profile.id === activeProfileId);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+          <KeyRound className="h-4 w-4 mr-2" />
+          <span className="max-w-[8rem] truncate">{shownProfile?.label ?? "API Key"}</span>
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>Active key</DropdownMenuLabel>
+        <DropdownMenuRadioGroup value={activeProfileId ?? ""} onValueChange={setActiveApiKeyProfile}>
+          {profiles.map(profile => (
+            <DropdownMenuRadioItem key={profile.id} value={profile.id}>
+              <span className="truncate">{profile.label}</span>
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        {profiles.length > 1 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel>This chat</DropdownMenuLabel>
+            <DropdownMenuRadioGroup
+              value={boundProfile?.id ?? FOLLOW_ACTIVE}
+              onValueChange={(value) => onProfileChange(value === FOLLOW_ACTIVE ? undefined : value)}
+            >
+              <DropdownMenuRadioItem value={FOLLOW_ACTIVE}>Follow active key</DropdownMenuRadioItem>
+              {profiles.map(profile => (
+                <DropdownMenuRadioItem key={profile.id} value={profile.id}>
+                  <span className="truncate">Always use {profile.label}</span>
+                </DropdownMenuRadioItem>
+              ))}
+            </DropdownMenuRadioGroup>
+          </>
+        )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem onSelect={() => navigate("/settings")}>
+          <Settings className="h-4 w-4 mr-2" />
+          Manage keys
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
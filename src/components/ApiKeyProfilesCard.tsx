@@ -0,0 +1,210 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useApiKey } from "@/hooks/use-api-key";
+import {
+  addApiKeyProfile,
+  clearStoredApiKey,
+  removeApiKeyProfile,
+  renameApiKeyProfile,
+  setActiveApiKeyProfile,
+  type ApiKeyProfile,
+} from "@/lib/api-key";
+import { DEFAULT_PROVIDER_SETTINGS, getProvider, toConnection, validateConnection, type ProviderSettings } from "@/lib/providers";
+import { ProviderFields } from "./ProviderFields";
+import { KeyRound, Pencil, Plus, Trash2 } from "lucide-react";
+
+export const ApiKeyProfilesCard = () => {
+  const { profiles, activeProfileId } = useApiKey();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingLabel, setEditingLabel] = useState("");
+  const [pendingRemove, setPendingRemove] = useState<ApiKeyProfile | null>(null);
+  const [confirmClearAll, setConfirmClearAll] = useState(false);
+
+  const [isAdding, setIsAdding] = useState(false);
+  const [label, setLabel] = useState("");
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [apiKey, setApiKey] = useState("");
+  const [passphrase, setPassphrase] = useState("");
+  const [addError, setAddError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const startRename = (profile: ApiKeyProfile) => {
+    setEditingId(profile.id);
+    setEditingLabel(profile.label);
+  };
+
+  const commitRename = () => {
+    const label = editingLabel.trim();
+    if (editingId && label) {
+      renameApiKeyProfile(editingId, label);
+    }
+    setEditingId(null);
+  };
+
+  const provider = getProvider(providerSettings.providerId);
+  const keyRequired = provider.capabilities.requiresApiKey;
+
+  const resetAddForm = () => {
+    setIsAdding(false);
+    setLabel("");
+    setProviderSettings(DEFAULT_PROVIDER_SETTINGS);
+    setApiKey("");
+    setPassphrase("");
+    setAddError(null);
+  };
+
+  const addProfile = async () => {
+    setIsSaving(true);
+    setAddError(null);
+    try {
+      await validateConnection(toConnection(providerSettings, apiKey.trim()));
+      if (await addApiKeyProfile(label.trim(), providerSettings, apiKey.trim(), passphrase)) {
+        resetAddForm();
+      } else {
+        setAddError("Incorrect passphrase. Use the one that unlocks your other keys.");
+      }
+    } catch (error) {
+      setAddError(error instanceof Error ? error.message : "Failed to add the key.");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>API Keys</CardTitle>
+        <CardDescription>
+          The active key is used for new requests. A chat can stay on a specific key from the key menu in its header.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <ul className="space-y-2">
+          {profiles.map(profile => (
+            <li key={profile.id} className="flex items-center gap-2 rounded-md border border-border px-3 py-2">
+              <KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+              {editingId === profile.id ? (
+                <Input
+                  autoFocus
+                  value={editingLabel}
+                  onChange={(e) => setEditingLabel(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitRename();
+                    if (e.key === "Escape") setEditingId(null);
+                  }}
+                  className="h-7"
+                  aria-label="Key label"
+                />
+              ) : (
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm">{profile.label}</span>
+                  <span className="block truncate text-xs text-muted-foreground">
+                    {profile.provider.baseUrl || getProvider(profile.provider.providerId).label}
+                  </span>
+                </span>
+              )}
+              {profile.id === activeProfileId ? (
+                <Badge variant="secondary">Active</Badge>
+              ) : (
+                <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setActiveApiKeyProfile(profile.id)}>
+                  Set active
+                </Button>
+              )}
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => startRename(profile)} aria-label={`Rename ${profile.label}`}>
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setPendingRemove(profile)} aria-label={`Remove ${profile.label}`}>
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+
+        {isAdding ? (
+          <div className="space-y-3 rounded-md border border-border p-3">
+            <div className="space-y-2">
+              <Label htmlFor="newKeyLabel">Label</Label>
+              <Input id="newKeyLabel" value={label} onChange={(e) => setLabel(e.target.value)} placeholder="Team" />
+            </div>
+            <ProviderFields idPrefix="newKey" value={providerSettings} onChange={setProviderSettings} />
+            <div className="space-y-2">
+              <Label htmlFor="newApiKey">API Key{keyRequired ? "" : " (optional)"}</Label>
+              <Input
+                id="newApiKey"
+                type="password"
+                value={apiKey}
+                onChange={(e) => setApiKey(e.target.value)}
+                placeholder={provider.keyPlaceholder}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="newKeyPassphrase">Passphrase</Label>
+              <Input
+                id="newKeyPassphrase"
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="Same passphrase as your other keys"
+                autoComplete="current-password"
+              />
+            </div>
+            {addError && <p className="text-sm text-destructive">{addError}</p>}
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={resetAddForm}>
+                Cancel
+              </Button>
+              <Button size="sm" onClick={addProfile} disabled={!label.trim() || (keyRequired && !apiKey.trim()) || !passphrase || isSaving}>
+                {isSaving ? "Validating..." : "Add key"}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Button variant="outline" className="w-full" onClick={() => setIsAdding(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add key
+          </Button>
+        )}
+
+        <Button variant="ghost" size="sm" className="w-full text-destructive hover:text-destructive" onClick={() => setConfirmClearAll(true)}>
+          Remove all keys
+        </Button>
+      </CardContent>
+
+      <AlertDialog open={pendingRemove !== null} onOpenChange={(open) => !open && setPendingRemove(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove key?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingRemove?.label}" will be deleted from this device. Chats that used it switch to the active key.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => pendingRemove && removeApiKeyProfile(pendingRemove.id)}>Remove</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      <AlertDialog open={confirmClearAll} onOpenChange={setConfirmClearAll}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Remove all keys?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Every stored key will be deleted and you will need to set one up again. Your conversations are kept.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={clearStoredApiKey}>Remove all</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
@@ -4,48 +4,45 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Checkbox } from "@/components/ui/checkbox";
+import { MIN_PASSPHRASE_LENGTH, saveApiKey } from "@/lib/api-key";
+import { DEFAULT_PROVIDER_SETTINGS, getProvider, toConnection, validateConnection, type ProviderSettings } from "@/lib/providers";
+import { ProviderFields } from "./ProviderFields";
 import { Shield, Eye, EyeOff } from "lucide-react";
 
-interface ApiKeySetupProps {
-  onApiKeySet: (apiKey: string) => void;
-  existingApiKey?: string;
-}
-
-export const ApiKeySetup = ({ onApiKeySet, existingApiKey }: ApiKeySetupProps) => {
-  const [apiKey, setApiKey] = useState(existingApiKey || "");
+export const ApiKeySetup = () => {
+  const [label, setLabel] = useState("Personal");
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(DEFAULT_PROVIDER_SETTINGS);
+  const [apiKey, setApiKey] = useState("");
   const [showApiKey, setShowApiKey] = useState(false);
   const [isValidating, setIsValidating] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [rememberForSession, setRememberForSession] = useState(false);
+
+  const provider = getProvider(providerSettings.providerId);
+  const keyRequired = provider.capabilities.requiresApiKey;
 
   const validateAndSetApiKey = async () => {
-    if (!apiKey.trim()) return;
-    
-    // Basic validation - OpenRouter API keys start with "sk-or-v1-"
-    if (!apiKey.startsWith("sk-or-v1-")) {
-      alert("Invalid API key format. OpenRouter API keys should start with 'sk-or-v1-'");
+    if (keyRequired && !apiKey.trim()) return;
+
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      alert(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+      return;
+    }
+
+    if (passphrase !== confirmPassphrase) {
+      alert("Passphrases do not match.");
       return;
     }
 
     setIsValidating(true);
     
     try {
-      // Test the API key with a simple request
-      const response = await fetch("https://openrouter.ai/api/v1/models", {
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-        },
-      });
-
-      if (response.ok) {
-        // Store encrypted in localStorage (basic encryption)
-        const encryptedKey = btoa(apiKey);
-        localStorage.setItem("openrouter_api_key", encryptedKey);
-        onApiKeySet(apiKey);
-      } else {
-        alert("Invalid API key. Please check your key and try again.");
-      }
+      await validateConnection(toConnection(providerSettings, apiKey.trim()));
+      await saveApiKey(label.trim() || "Personal", providerSettings, apiKey.trim(), passphrase, rememberForSession);
     } catch (error) {
-      alert("Failed to validate API key. Please check your connection and try again.");
+      alert(error instanceof Error ? error.message : "Failed to validate API key. Please try again.");
     } finally {
       setIsValidating(false);
     }
@@ -60,26 +57,38 @@ export const ApiKeySetup = ({ onApiKeySet, existingApiKey }: ApiKeySetupProps) =
           </div>
           <CardTitle>API Key Setup</CardTitle>
           <CardDescription>
-            Enter your OpenRouter API key to start chatting with DeepSeek AI
+            Connect OpenRouter or any OpenAI-compatible server to start chatting
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <Alert>
             <Shield className="h-4 w-4" />
             <AlertDescription>
-              Your API key is stored locally and encrypted. It never leaves your device except to make API calls to OpenRouter.
+              Your API key is encrypted with your passphrase and stored locally. It never leaves your device except to make API calls to your provider.
             </AlertDescription>
           </Alert>
-          
+        
           <div className="space-y-2">
-            <Label htmlFor="apiKey">OpenRouter API Key</Label>
+            <Label htmlFor="keyLabel">Label</Label>
+            <Input
+              id="keyLabel"
+              value={label}
+              onChange={(e) => setLabel(e.target.value)}
+              placeholder="Personal"
+            />
+          </div>
+
+          <ProviderFields idPrefix="setup" value={providerSettings} onChange={setProviderSettings} />
+
+          <div className="space-y-2">
+            <Label htmlFor="apiKey">API Key{keyRequired ? "" : " (optional)"}</Label>
             <div className="relative">
               <Input
                 id="apiKey"
                 type={showApiKey ? "text" : "password"}
                 value={apiKey}
                 onChange={(e) => setApiKey(e.target.value)}
-                placeholder="sk-or-v1-..."
+                placeholder={provider.keyPlaceholder}
                 className="pr-10"
               />
               <Button
@@ -98,18 +107,50 @@ export const ApiKeySetup = ({ onApiKeySet, existingApiKey }: ApiKeySetupProps) =
             </div>
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="passphrase">Passphrase</Label>
+            <Input
+              id="passphrase"
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+              autoComplete="new-password"
+            />
+            <Input
+              id="confirmPassphrase"
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              placeholder="Confirm passphrase"
+              aria-label="Confirm passphrase"
+              autoComplete="new-password"
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Checkbox
+              id="rememberForSession"
+              checked={rememberForSession}
+              onCheckedChange={(checked) => setRememberForSession(checked === true)}
+            />
+            <Label htmlFor="rememberForSession" className="font-normal">
+              Stay unlocked until this tab is closed
+            </Label>
+          </div>
+
           <Button 
             onClick={validateAndSetApiKey} 
             className="w-full"
-            disabled={!apiKey.trim() || isValidating}
+            disabled={(keyRequired && !apiKey.trim()) || !passphrase || isValidating}
           >
             {isValidating ? "Validating..." : "Set API Key"}
           </Button>
 
           <div className="text-xs text-muted-foreground space-y-1">
-            <p>• Get your API key from <a href="https://openrouter.ai/keys" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">openrouter.ai/keys</a></p>
-            <p>• Your key is stored securely in your browser</p>
-            <p>• You can change it anytime in settings</p>
+            <p>• Get an OpenRouter key from <a href="https://openrouter.ai/keys" target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">openrouter.ai/keys</a></p>
+            <p>• You will need the passphrase to unlock the app after a restart</p>
+            <p>• You can add more keys, such as a team key, in settings</p>
           </div>
         </CardContent>
       </Card>
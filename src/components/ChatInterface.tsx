@@ -1,56 +1,224 @@
-import { useState, useRef, useEffect } from "react";
+import { Fragment, useState, useRef, useEffect, useMemo } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
-import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { SidebarTrigger } from "@/components/ui/sidebar";
 import { ChatMessage } from "./ChatMessage";
 import { SecureChatInput } from "./SecureChatInput";
-import { ApiKeySetup } from "./ApiKeySetup";
+import { ModelPicker } from "./ModelPicker";
+import { FallbackModelsPopover } from "./FallbackModelsPopover";
+import { ContextMeter } from "./ContextMeter";
+import { ChatParametersSheet } from "./ChatParametersSheet";
+import { SystemPromptSheet } from "./SystemPromptSheet";
+import { MemorySheet } from "./MemorySheet";
+import { NewChatMenu } from "./NewChatMenu";
+import { ConversationSummarySheet } from "./ConversationSummarySheet";
+import { ApiKeyProfileSwitcher } from "./ApiKeyProfileSwitcher";
+import type { RegenerateOptions } from "./RegenerateMenu";
+import NotFound from "@/pages/NotFound";
 import { useToast } from "@/hooks/use-toast";
-import { MessageSquarePlus, Bot, Settings } from "lucide-react";
+import { CONVERSATIONS_QUERY_KEY } from "@/hooks/use-conversations";
+import { useSettings } from "@/hooks/use-settings";
+import { useModels } from "@/hooks/use-models";
+import { useMemories } from "@/hooks/use-memories";
+import { useProviderConnection } from "@/hooks/use-api-key";
+import { useLockApp } from "@/hooks/use-idle-lock";
+import { streamChatCompletion } from "@/lib/providers";
+import { DEFAULT_CONVERSATION_TITLE, getConversation, getMessages, saveConversation, setLastConversationId, updateConversation } from "@/lib/conversation-store";
+import type { GenerationParams } from "@/lib/generation-params";
+import { findLatestLeaf, getActivePath, getSiblings } from "@/lib/message-tree";
+import { withRetry } from "@/lib/retry";
+import { CHAT_ERROR_TITLES, classifyError } from "@/lib/chat-errors";
+import { DEFAULT_CONTEXT_LENGTH, getPromptBudget } from "@/lib/context-window";
+import { assembleSystemPrompt, buildPrompt, countPromptTokens, isSendable } from "@/lib/prompt";
+import { selectMemories, suggestMemories } from "@/lib/memory";
+import { summarizeMessages } from "@/lib/summarize";
+import { isTokenizerLoaded, loadTokenizer } from "@/lib/tokens";
+import { DEFAULT_WELCOME, type Persona } from "@/lib/personas";
+import { getSettings } from "@/lib/settings";
+import { createId } from "@/lib/utils";
+import type { Conversation, Message } from "@/types/chat";
+import { Bot, Lock } from "lucide-react";
 
-interface Message {
-  id: string;
-  content: string;
-  isUser: boolean;
-  timestamp: Date;
-}
+const SAVE_DELAY = 500;
+/** Longest a streaming reply goes unsaved, so a reload loses little of it */
+const STREAMING_SAVE_INTERVAL = 1500;
 
-const MODEL = "deepseek/deepseek-chat-v3.1:free";
+const createGreeting = (persona?: Persona): Message => ({
+  id: createId(),
+  parentId: null,
+  content: persona?.welcome || DEFAULT_WELCOME,
+  isUser: false,
+  timestamp: new Date(),
+});
 
-const getStoredApiKey = (): string | null => {
-  try {
-    const encrypted = localStorage.getItem("openrouter_api_key");
-    return encrypted ? atob(encrypted) : null;
-  } catch {
-    return null;
-  }
-};
+const createConversation = (id: string, persona?: Persona): Conversation => ({
+  id,
+  title: DEFAULT_CONVERSATION_TITLE,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  personaId: persona?.id,
+  systemPrompt: persona?.systemPrompt,
+  model: persona?.model,
+  params: persona?.params,
+});
 
-const clearStoredApiKey = () => {
-  localStorage.removeItem("openrouter_api_key");
-};
+interface ChatInterfaceProps {
+  conversationId: string;
+  /** The id was just minted by "/new" rather than loaded from a link */
+  isNew?: boolean;
+  /** Persona a new chat starts with */
+  personaId?: string;
+  onNewChat: (personaId?: string) => void;
+}
 
-export const ChatInterface = () => {
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: "1",
-      content: "Hello! I'm DeepSeek AI. How can I assist you today?",
-      isUser: false,
-      timestamp: new Date(),
-    },
-  ]);
+export const ChatInterface = ({ conversationId, isNew = false, personaId, onNewChat }: ChatInterfaceProps) => {
+  const [conversation, setConversation] = useState<Conversation | null>(null);
+  const [notFound, setNotFound] = useState(false);
+  // Every message of the conversation tree; only the active branch is shown
+  const [messages, setMessages] = useState<Message[]>([]);
+  const [activeLeafId, setActiveLeafId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
-  const [apiKey, setApiKey] = useState<string | null>(null);
-  const [showApiKeySetup, setShowApiKeySetup] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const pendingSaveRef = useRef<(() => void) | null>(null);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastSaveRef = useRef<{ at: number; userMessageId?: string }>({ at: 0 });
+  const retryNowRef = useRef<(() => void) | null>(null);
+  const [isSummaryOpen, setIsSummaryOpen] = useState(false);
+  // Re-renders once the tokenizer has loaded so token counts become exact
+  const [, setIsTokenizerReady] = useState(isTokenizerLoaded);
+  const queryClient = useQueryClient();
+  const [settings] = useSettings();
+  const lockApp = useLockApp();
   const { toast } = useToast();
 
+  const connection = useProviderConnection(conversation?.profileId);
+  const activeModel = conversation?.model ?? settings.defaultModel;
+  const activeParams = conversation?.params ?? settings.generationParams;
+  const visibleMessages = useMemo(() => getActivePath(messages, activeLeafId), [messages, activeLeafId]);
+  const { data: models } = useModels(connection);
+  const { memories } = useMemories();
+
+  const getContextLength = (modelId: string) =>
+    models?.find(model => model.id === modelId)?.contextLength || DEFAULT_CONTEXT_LENGTH;
+  const isContextLengthKnown = Boolean(models?.find(model => model.id === activeModel)?.contextLength);
+  const promptBudget = getPromptBudget(getContextLength(activeModel), activeParams.max_tokens);
+  const customInstructions = conversation?.ignoreCustomInstructions ? undefined : settings.customInstructions;
+  const systemPrompt = assembleSystemPrompt(conversation?.systemPrompt, customInstructions);
+  const promptTokens = countPromptTokens({
+    history: visibleMessages,
+    strategy: settings.contextStrategy,
+    systemPrompt,
+    summary: conversation?.summary,
+  });
+  // Where the running summary takes over from the raw messages on this branch
+  const summaryIndex = settings.contextStrategy === "summarize" && conversation?.summary
+    ? visibleMessages.findIndex(message => message.id === conversation.summary?.throughId)
+    : -1;
+
+  useEffect(() => {
+    loadTokenizer()
+      .then(() => setIsTokenizerReady(true))
+      .catch(() => undefined);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const restoreConversation = async () => {
+      try {
+        const storedConversation = await getConversation(conversationId);
+        if (storedConversation) {
+          const storedMessages = await getMessages(conversationId);
+          if (!cancelled) {
+            // Already on disk, so loading it is not a change worth saving
+            lastSaveRef.current = { at: 0, userMessageId: storedMessages.filter(msg => msg.isUser).pop()?.id };
+            setConversation(storedConversation);
+            setMessages(storedMessages);
+            setActiveLeafId(storedConversation.activeLeafId ?? storedMessages[storedMessages.length - 1]?.id ?? null);
+            setLastConversationId(conversationId);
+          }
+          return;
+        }
+        if (!isNew) {
+          if (!cancelled) setNotFound(true);
+          return;
+        }
+      } catch {
+        // Storage may be unavailable (private mode); fall back to an in-memory chat
+      }
+
+      if (!cancelled) {
+        const persona = getSettings().personas.find(option => option.id === personaId);
+        const greeting = createGreeting(persona);
+        setConversation(createConversation(conversationId, persona));
+        setMessages([greeting]);
+        setActiveLeafId(greeting.id);
+      }
+    };
+
+    restoreConversation();
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, isNew, personaId]);
+
+  // Conversations are only written once the user has said something, so
+  // opening the app does not leave empty chats behind. A new user message is
+  // written right away; while a reply streams, saves are throttled rather
+  // than debounced so the reply is not held back until it finishes.
   useEffect(() => {
-    const storedKey = getStoredApiKey();
-    if (storedKey) {
-      setApiKey(storedKey);
-    } else {
-      setShowApiKeySetup(true);
+    if (!conversation || !messages.some(msg => msg.isUser)) return;
+
+    const latestUserMessageId = messages.filter(msg => msg.isUser).pop()?.id;
+    const isStreaming = messages.some(msg => msg.isStreaming);
+
+    const save = () => {
+      pendingSaveRef.current = null;
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+      lastSaveRef.current = { at: Date.now(), userMessageId: latestUserMessageId };
+      saveConversation(conversation, messages, activeLeafId)
+        .then(() => {
+          setLastConversationId(conversation.id);
+          queryClient.invalidateQueries({ queryKey: CONVERSATIONS_QUERY_KEY });
+        })
+        .catch(() => {
+          toast({
+            title: "Could not save conversation",
+            description: "Your browser storage may be full or unavailable.",
+            variant: "destructive",
+          });
+        });
+    };
+
+    pendingSaveRef.current = save;
+
+    if (latestUserMessageId !== lastSaveRef.current.userMessageId) {
+      save();
+      return;
+    }
+    if (isStreaming) {
+      // The timer runs whatever save is pending when it fires
+      if (!saveTimerRef.current) {
+        const wait = Math.max(0, lastSaveRef.current.at + STREAMING_SAVE_INTERVAL - Date.now());
+        saveTimerRef.current = setTimeout(() => pendingSaveRef.current?.(), wait);
+      }
+      return;
     }
+    if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+    saveTimerRef.current = setTimeout(() => pendingSaveRef.current?.(), SAVE_DELAY);
+  }, [conversation, messages, activeLeafId, queryClient, toast]);
+
+  // Switching conversations unmounts this component: stop any reply still
+  // streaming and write out the last unsaved changes
+  useEffect(() => {
+    return () => {
+      abortControllerRef.current?.abort();
+      if (saveTimerRef.current) clearTimeout(saveTimerRef.current);
+      pendingSaveRef.current?.();
+    };
   }, []);
 
   const scrollToBottom = () => {
@@ -59,108 +227,268 @@ export const ChatInterface = () => {
 
   useEffect(() => {
     scrollToBottom();
-  }, [messages]);
+  }, [visibleMessages]);
 
-  const handleNewChat = () => {
-    setMessages([
-      {
-        id: "1",
-        content: "Hello! I'm DeepSeek AI. How can I assist you today?",
-        isUser: false,
-        timestamp: new Date(),
-      },
-    ]);
+  const updateMessage = (id: string, update: (message: Message) => Message) => {
+    setMessages(prev => prev.map(msg => (msg.id === id ? update(msg) : msg)));
   };
 
-  const sendMessage = async (content: string) => {
-    if (!apiKey) {
+  // Streams a completion into an existing assistant message, appending to
+  // whatever content it already holds
+  const streamInto = async (aiMessage: Message, history: Message[], params: GenerationParams = activeParams) => {
+    const aiMessageId = aiMessage.id;
+    const requestedModel = aiMessage.model ?? activeModel;
+    let receivedContent = false;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    setIsLoading(true);
+    // Facts are picked for what is being answered: the last message and the one before it
+    const usedMemories = settings.memoryEnabled
+      ? selectMemories(memories, history.slice(-2).map(message => message.content).join("\n"))
+      : [];
+    updateMessage(aiMessageId, msg => ({
+      ...msg,
+      error: undefined,
+      memoryIds: usedMemories.length > 0 ? usedMemories.map(memory => memory.id) : undefined,
+    }));
+
+    try {
+      const budget = getPromptBudget(getContextLength(requestedModel), params.max_tokens);
+      const prompt = await buildPrompt({
+        history,
+        budget,
+        strategy: settings.contextStrategy,
+        systemPrompt: assembleSystemPrompt(
+          conversation?.systemPrompt,
+          customInstructions,
+          usedMemories.map(memory => memory.content)
+        ),
+        summary: conversation?.summary,
+        summarize: async (dropped, previous) => {
+          try {
+            const content = await summarizeMessages({
+              connection,
+              model: requestedModel,
+              messages: dropped,
+              previousSummary: previous,
+              budget,
+              signal: controller.signal,
+            });
+            if (!content) return null;
+            patchConversation({ summary: { content, throughId: dropped[dropped.length - 1].id, updatedAt: new Date() } });
+            return content;
+          } catch (error) {
+            if (controller.signal.aborted) throw error;
+            // Answering without the summary beats not answering
+            return null;
+          }
+        },
+      });
+
+      const result = await withRetry(
+        () =>
+          streamChatCompletion(
+            {
+              connection,
+              model: requestedModel,
+              fallbackModels: conversation?.fallbackModels,
+              messages: prompt,
+              params,
+              signal: controller.signal,
+            },
+            (delta) => {
+              receivedContent = true;
+              updateMessage(aiMessageId, msg => ({ ...msg, content: msg.content + delta }));
+            }
+          ),
+        {
+          signal: controller.signal,
+          // Retrying after part of the reply arrived would repeat it
+          canRetry: () => !receivedContent,
+          onWait: (retry, retryNow) => {
+            retryNowRef.current = retryNow ?? null;
+            updateMessage(aiMessageId, msg => ({ ...msg, retry: retry ?? undefined }));
+          },
+        }
+      );
+
+      updateMessage(aiMessageId, msg => ({
+        ...msg,
+        content: msg.content || result.content || "I'm sorry, I couldn't process that request.",
+        model: result.model,
+        // Continuing a fallback reply asks the fallback model again, so keep the original request
+        fallbackFrom: result.model !== requestedModel ? requestedModel : msg.fallbackFrom,
+        isStreaming: false,
+      }));
+    } catch (error) {
+      if (controller.signal.aborted) {
+        // Keep whatever already arrived, drop the bubble if nothing did
+        if (!receivedContent && !aiMessage.content) {
+          setMessages(prev => prev.filter(msg => msg.id !== aiMessageId));
+          setActiveLeafId(leafId => (leafId === aiMessageId ? aiMessage.parentId : leafId));
+        } else {
+          updateMessage(aiMessageId, msg => ({ ...msg, isStreaming: false, isStopped: true, retry: undefined }));
+        }
+      } else {
+        // The reply stays in place as an error bubble, with anything that did arrive
+        const chatError = classifyError(error);
+        updateMessage(aiMessageId, msg => ({ ...msg, isStreaming: false, retry: undefined, error: chatError }));
+
+        // A rejected key breaks every chat, so it gets a toast as well
+        if (chatError.kind === "auth") {
+          toast({
+            title: CHAT_ERROR_TITLES.auth,
+            description: "Check your API key in settings.",
+            variant: "destructive",
+          });
+        }
+      }
+    } finally {
+      abortControllerRef.current = null;
+      retryNowRef.current = null;
+      setIsLoading(false);
+    }
+  };
+
+  const requireApiKey = () => {
+    if (!connection) {
       toast({
         title: "API Key Required",
         description: "Please set your API key to send messages.",
         variant: "destructive",
       });
-      return;
+      return false;
     }
+    return true;
+  };
 
+  // Adds a user message under `parentId` and streams the reply to it.
+  // Sending from an earlier point than the current leaf starts a new branch.
+  const askFrom = async (parentId: string | null, content: string) => {
     const userMessage: Message = {
-      id: Date.now().toString(),
+      id: createId(),
+      parentId,
       content,
       isUser: true,
       timestamp: new Date(),
     };
 
-    setMessages(prev => [...prev, userMessage]);
-    setIsLoading(true);
+    const aiMessage: Message = {
+      id: createId(),
+      parentId: userMessage.id,
+      content: "",
+      isUser: false,
+      timestamp: new Date(),
+      isStreaming: true,
+      model: activeModel,
+    };
 
-    try {
-      // Prepare conversation context
-      const conversationHistory = [...messages, userMessage].map(msg => ({
-        role: msg.isUser ? "user" : "assistant",
-        content: msg.content,
-      }));
+    setMessages(prev => [...prev, userMessage, aiMessage]);
+    setActiveLeafId(aiMessage.id);
+    await streamInto(aiMessage, [...getActivePath(messages, parentId), userMessage]);
+  };
 
-      const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Authorization": `Bearer ${apiKey}`,
-          "Content-Type": "application/json",
-          "HTTP-Referer": window.location.origin,
-          "X-Title": "AI Chat Interface",
-        },
-        body: JSON.stringify({
-          model: MODEL,
-          messages: conversationHistory,
-          temperature: 0.7,
-          max_tokens: 1000,
-        }),
-      });
+  const sendMessage = async (content: string) => {
+    if (!requireApiKey()) return;
+    await askFrom(activeLeafId, content);
+  };
 
-      if (!response.ok) {
-        // Handle different error types without exposing details
-        if (response.status === 401) {
-          throw new Error("Authentication failed. Please check your API key.");
-        } else if (response.status === 429) {
-          throw new Error("Rate limit exceeded. Please try again later.");
-        } else {
-          throw new Error("Service temporarily unavailable. Please try again.");
-        }
-      }
+  // The original message and everything after it stay reachable through
+  // the branch switcher
+  const editMessage = async (id: string, content: string) => {
+    if (!requireApiKey() || isLoading) return;
 
-      const data = await response.json();
-      const aiResponse = data.choices[0]?.message?.content || "I'm sorry, I couldn't process that request.";
+    const message = messages.find(msg => msg.id === id);
+    if (!message?.isUser) return;
+    await askFrom(message.parentId, content);
+  };
 
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
-        content: aiResponse,
-        isUser: false,
-        timestamp: new Date(),
-      };
+  const continueMessage = async (id: string) => {
+    if (!requireApiKey() || isLoading) return;
 
-      setMessages(prev => [...prev, aiMessage]);
-    } catch (error) {
-      // Log error for debugging but don't expose details to user
-      const errorMessage = error instanceof Error ? error.message : "Failed to send message. Please try again.";
-      toast({
-        title: "Error",
-        description: errorMessage,
-        variant: "destructive",
-      });
-    } finally {
-      setIsLoading(false);
+    const message = messages.find(msg => msg.id === id);
+    if (!message) return;
+
+    updateMessage(id, msg => ({ ...msg, isStreaming: true, isStopped: false }));
+    // The partial reply is sent as the last assistant turn so the model picks up where it left off
+    await streamInto(message, getActivePath(messages, id));
+  };
+
+  // Asks again in place of a failed reply, discarding anything it received
+  const retryMessage = async (id: string) => {
+    if (!requireApiKey() || isLoading) return;
+
+    const message = messages.find(msg => msg.id === id);
+    if (!message?.parentId) return;
+
+    const retried: Message = { ...message, content: "", error: undefined, isStreaming: true, isStopped: false };
+    updateMessage(id, () => retried);
+    await streamInto(retried, getActivePath(messages, message.parentId));
+  };
+
+  // Asks again from the same point in the conversation. The new reply is
+  // added next to the old one rather than replacing it.
+  const regenerateMessage = async (id: string, options: RegenerateOptions = {}) => {
+    if (!requireApiKey() || isLoading) return;
+
+    const message = messages.find(msg => msg.id === id);
+    if (!message?.parentId) return;
+
+    const model = options.model ?? activeModel;
+    const params = options.temperature !== undefined ? { ...activeParams, temperature: options.temperature } : activeParams;
+    const aiMessage: Message = {
+      id: createId(),
+      parentId: message.parentId,
+      content: "",
+      isUser: false,
+      timestamp: new Date(),
+      isStreaming: true,
+      model,
+    };
+
+    setMessages(prev => [...prev, aiMessage]);
+    setActiveLeafId(aiMessage.id);
+    await streamInto(aiMessage, getActivePath(messages, message.parentId), params);
+  };
+
+  const selectVariant = (message: Message, index: number) => {
+    const sibling = getSiblings(messages, message)[index];
+    if (sibling) {
+      setActiveLeafId(findLatestLeaf(messages, sibling.id));
     }
   };
 
-  const handleApiKeySet = (newApiKey: string) => {
-    setApiKey(newApiKey);
-    setShowApiKeySetup(false);
+  // Saved chats are updated right away; new ones pick the changes up on first save
+  const patchConversation = (changes: Partial<Omit<Conversation, "id" | "createdAt">>) => {
+    setConversation(prev => (prev ? { ...prev, ...changes } : prev));
+    updateConversation(conversationId, changes).catch(() => undefined);
+  };
+
+  const suggestFromChat = async () => {
+    if (!requireApiKey() || !connection) throw new Error("An API key is required.");
+    return suggestMemories({
+      connection,
+      model: activeModel,
+      messages: visibleMessages.filter(isSendable),
+      known: memories,
+      budget: Math.floor(promptBudget / 2),
+    });
+  };
+
+  const togglePinned = (id: string) => {
+    updateMessage(id, msg => ({ ...msg, pinned: !msg.pinned || undefined }));
+  };
+
+  const stopGeneration = () => {
+    abortControllerRef.current?.abort();
   };
 
-  const handleManageApiKey = () => {
-    setShowApiKeySetup(true);
+  const retryNow = () => {
+    retryNowRef.current?.();
   };
 
-  if (showApiKeySetup) {
-    return <ApiKeySetup onApiKeySet={handleApiKeySet} existingApiKey={apiKey || undefined} />;
+  if (notFound) {
+    return <NotFound message="This conversation doesn't exist or was deleted." />;
   }
 
   return (
@@ -168,66 +496,115 @@ export const ChatInterface = () => {
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-border bg-card">
         <div className="flex items-center gap-2">
+          <SidebarTrigger />
           <Bot className="h-6 w-6 text-primary" />
           <h1 className="text-xl font-semibold text-foreground">DeepSeek AI Chat</h1>
+          <ModelPicker connection={connection} value={activeModel} onChange={(model) => patchConversation({ model })} className="ml-2" />
+          <FallbackModelsPopover
+            connection={connection}
+            primaryModel={activeModel}
+            value={conversation?.fallbackModels ?? []}
+            onChange={(fallbackModels) => patchConversation({ fallbackModels })}
+          />
         </div>
         <div className="flex items-center gap-2">
+          <SystemPromptSheet
+            systemPrompt={conversation?.systemPrompt}
+            persona={settings.personas.find(persona => persona.id === conversation?.personaId)}
+            onChange={(systemPrompt) => patchConversation({ systemPrompt: systemPrompt || undefined })}
+            customInstructions={settings.customInstructions}
+            ignoreCustomInstructions={conversation?.ignoreCustomInstructions ?? false}
+            onIgnoreCustomInstructionsChange={(ignore) => patchConversation({ ignoreCustomInstructions: ignore || undefined })}
+          />
+          <MemorySheet conversationId={conversationId} onSuggest={suggestFromChat} />
+          <ChatParametersSheet
+            params={conversation?.params}
+            defaults={settings.generationParams}
+            onChange={(params) => patchConversation({ params })}
+          />
+          <ApiKeyProfileSwitcher profileId={conversation?.profileId} onProfileChange={(profileId) => patchConversation({ profileId })} />
           <Button
             variant="ghost"
             size="sm"
-            onClick={handleManageApiKey}
+            onClick={lockApp}
             className="text-muted-foreground hover:text-foreground"
           >
-            <Settings className="h-4 w-4 mr-2" />
-            API Key
+            <Lock className="h-4 w-4 mr-2" />
+            Lock now
           </Button>
-          <AlertDialog>
-          <AlertDialogTrigger asChild>
-            <Button variant="outline" size="sm">
-              <MessageSquarePlus className="h-4 w-4 mr-2" />
-              New Chat
-            </Button>
-            </AlertDialogTrigger>
-            <AlertDialogContent>
-              <AlertDialogHeader>
-                <AlertDialogTitle>Start New Chat</AlertDialogTitle>
-                <AlertDialogDescription>
-                  This will clear the current conversation. Are you sure you want to start a new chat?
-                </AlertDialogDescription>
-              </AlertDialogHeader>
-              <AlertDialogFooter>
-                <AlertDialogCancel>Cancel</AlertDialogCancel>
-                <AlertDialogAction onClick={handleNewChat}>Start New Chat</AlertDialogAction>
-              </AlertDialogFooter>
-            </AlertDialogContent>
-          </AlertDialog>
+          <NewChatMenu personas={settings.personas} onNewChat={onNewChat} />
         </div>
       </div>
 
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-4 space-y-4">
-        {messages.map((message) => (
-          <ChatMessage
-            key={message.id}
-            message={message.content}
-            isUser={message.isUser}
-            timestamp={message.timestamp}
-          />
-        ))}
-        {isLoading && (
-          <div className="flex justify-start">
-            <div className="bg-chat-ai text-chat-ai-foreground rounded-lg px-4 py-2 border border-border">
-              <div className="flex items-center gap-2">
-                <div className="animate-pulse text-sm">AI is thinking...</div>
-              </div>
-            </div>
-          </div>
-        )}
+        {visibleMessages.map((message, position) => {
+          const siblings = getSiblings(messages, message);
+          return (
+            <Fragment key={message.id}>
+              <ChatMessage
+                message={message.content}
+                isUser={message.isUser}
+                timestamp={message.timestamp}
+                isStreaming={message.isStreaming}
+                isStopped={message.isStopped}
+                model={message.model}
+                fallbackFrom={message.fallbackFrom}
+                memories={message.memoryIds && memories.filter(memory => message.memoryIds?.includes(memory.id))}
+                retry={message.retry}
+                onRetryNow={retryNow}
+                onCancel={stopGeneration}
+                renderMarkdown={!message.isUser || settings.renderUserMarkdown}
+                variantIndex={siblings.indexOf(message)}
+                variantCount={siblings.length}
+                onSelectVariant={!isLoading ? (index) => selectVariant(message, index) : undefined}
+                onContinue={!isLoading ? () => continueMessage(message.id) : undefined}
+                onRegenerate={!isLoading && !message.isUser && message.parentId ? (options) => regenerateMessage(message.id, options) : undefined}
+                onEdit={!isLoading && message.isUser ? (content) => editMessage(message.id, content) : undefined}
+                resendUnchanged={!!visibleMessages[position + 1]?.error}
+                isEditing={editingMessageId === message.id}
+                onEditingChange={(editing) => setEditingMessageId(editing ? message.id : null)}
+                error={message.error}
+                onRetry={!isLoading && message.parentId ? () => retryMessage(message.id) : undefined}
+                onEditAndResend={!isLoading && message.parentId ? () => setEditingMessageId(message.parentId) : undefined}
+                pinned={message.pinned}
+                onTogglePinned={settings.contextStrategy === "keep-pinned" && !message.isStreaming ? () => togglePinned(message.id) : undefined}
+              />
+              {position === summaryIndex && (
+                <div className="flex items-center gap-3 text-xs text-muted-foreground">
+                  <div className="h-px flex-1 bg-border" />
+                  <span>Earlier messages are sent as a summary</span>
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => setIsSummaryOpen(true)}>
+                    View or edit
+                  </Button>
+                  <div className="h-px flex-1 bg-border" />
+                </div>
+              )}
+            </Fragment>
+          );
+        })}
         <div ref={messagesEndRef} />
       </div>
 
       {/* Input */}
-      <SecureChatInput onSendMessage={sendMessage} isLoading={isLoading} />
+      <ContextMeter
+        tokens={promptTokens}
+        budget={promptBudget}
+        strategy={settings.contextStrategy}
+        isEstimated={!isContextLengthKnown}
+      />
+      <SecureChatInput onSendMessage={sendMessage} onStop={stopGeneration} isLoading={isLoading} />
+
+      {conversation?.summary && (
+        <ConversationSummarySheet
+          summary={conversation.summary}
+          coveredCount={summaryIndex + 1}
+          open={isSummaryOpen}
+          onOpenChange={setIsSummaryOpen}
+          onSave={(content) => conversation.summary && patchConversation({ summary: { ...conversation.summary, content, updatedAt: new Date() } })}
+          onClear={() => patchConversation({ summary: undefined })}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
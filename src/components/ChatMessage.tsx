@@ -1,12 +1,133 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { MarkdownContent } from "./MarkdownContent";
+import { RegenerateMenu, type RegenerateOptions } from "./RegenerateMenu";
+import { VariantSwitcher } from "./VariantSwitcher";
+import { RetryNotice } from "./RetryNotice";
+import { MessageErrorNotice } from "./MessageErrorNotice";
+import { MAX_MESSAGE_LENGTH, sanitizeInput } from "@/lib/message-input";
+import { shortModelName } from "@/lib/model-filters";
+import type { RetryState } from "@/lib/retry";
 import { cn } from "@/lib/utils";
+import type { ChatError } from "@/types/chat";
+import type { Memory } from "@/types/memory";
+import { Brain, CirclePause, Pencil, Pin, PinOff, Play } from "lucide-react";
 
 interface ChatMessageProps {
   message: string;
   isUser: boolean;
   timestamp: Date;
+  isStreaming?: boolean;
+  isStopped?: boolean;
+  model?: string;
+  /** Model originally asked for when `model` answered as a fallback */
+  fallbackFrom?: string;
+  /** Remembered facts sent along when this reply was asked for */
+  memories?: Memory[];
+  /** Shown instead of the thinking indicator while a failed request waits to retry */
+  retry?: RetryState;
+  onRetryNow?: () => void;
+  onCancel?: () => void;
+  /** Why this reply failed */
+  error?: ChatError;
+  /** Asks again in place of a failed reply */
+  onRetry?: () => void;
+  onEditAndResend?: () => void;
+  renderMarkdown?: boolean;
+  /** Position among sibling versions of this message */
+  variantIndex?: number;
+  variantCount?: number;
+  onSelectVariant?: (index: number) => void;
+  onContinue?: () => void;
+  onRegenerate?: (options?: RegenerateOptions) => void;
+  /** Sends an edited copy of this message as a new branch */
+  onEdit?: (content: string) => void;
+  /** Sends the edit even when unchanged, so a failed reply can be asked again */
+  resendUnchanged?: boolean;
+  isEditing?: boolean;
+  onEditingChange?: (isEditing: boolean) => void;
+  /** Pinned messages are kept when older ones are left out of the prompt */
+  pinned?: boolean;
+  onTogglePinned?: () => void;
 }
 
-export const ChatMessage = ({ message, isUser, timestamp }: ChatMessageProps) => {
+export const ChatMessage = ({
+  message,
+  isUser,
+  timestamp,
+  isStreaming,
+  isStopped,
+  model,
+  fallbackFrom,
+  memories = [],
+  retry,
+  onRetryNow,
+  onCancel,
+  error,
+  onRetry,
+  onEditAndResend,
+  renderMarkdown = false,
+  variantIndex = 0,
+  variantCount = 1,
+  onSelectVariant,
+  onContinue,
+  onRegenerate,
+  onEdit,
+  resendUnchanged = false,
+  isEditing = false,
+  onEditingChange,
+  pinned,
+  onTogglePinned,
+}: ChatMessageProps) => {
+  const [draft, setDraft] = useState(message);
+
+  // Editing can also be started from elsewhere, e.g. a failed reply below
+  useEffect(() => {
+    if (isEditing) {
+      setDraft(message);
+    }
+  }, [isEditing, message]);
+
+  const setIsEditing = (editing: boolean) => onEditingChange?.(editing);
+
+  const submitEdit = () => {
+    const content = sanitizeInput(draft);
+    if (!content || !onEdit) return;
+    setIsEditing(false);
+    if (content !== message || resendUnchanged) {
+      onEdit(content);
+    }
+  };
+
+  if (isStreaming && !message) {
+    return (
+      <div className="flex justify-start">
+        <div className="bg-chat-ai text-chat-ai-foreground rounded-lg px-4 py-2 border border-border">
+          {retry ? (
+            <RetryNotice retry={retry} onRetryNow={onRetryNow} onCancel={onCancel} />
+          ) : (
+            <div className="flex items-center gap-2">
+              <div className="animate-pulse text-sm">AI is thinking...</div>
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (error && !message) {
+    return (
+      <div className="flex justify-start">
+        <div className="max-w-[80%] rounded-lg border border-destructive/50 bg-chat-ai px-4 py-2 text-chat-ai-foreground">
+          <MessageErrorNotice error={error} onRetry={onRetry} onEditAndResend={onEditAndResend} />
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={cn("flex w-full mb-4", isUser ? "justify-end" : "justify-start")}>
       <div
@@ -17,9 +138,121 @@ export const ChatMessage = ({ message, isUser, timestamp }: ChatMessageProps) =>
             : "bg-chat-ai text-chat-ai-foreground border border-border"
         )}
       >
-        <p className="text-sm leading-relaxed whitespace-pre-wrap">{message}</p>
-        <div className="mt-1 text-xs opacity-60">
-          {timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        {isEditing ? (
+          <div className="flex w-[min(36rem,70vw)] flex-col gap-2">
+            <Textarea
+              autoFocus
+              value={draft}
+              maxLength={MAX_MESSAGE_LENGTH}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.shiftKey) {
+                  e.preventDefault();
+                  submitEdit();
+                } else if (e.key === "Escape") {
+                  setIsEditing(false);
+                }
+              }}
+              className="min-h-[80px] bg-background text-foreground"
+            />
+            <div className="flex justify-end gap-2">
+              <Button variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <Button variant="secondary" size="sm" onClick={submitEdit} disabled={!draft.trim()}>
+                Save & Submit
+              </Button>
+            </div>
+          </div>
+        ) : renderMarkdown ? (
+          <MarkdownContent content={message} />
+        ) : (
+          <p className="text-sm leading-relaxed whitespace-pre-wrap">{message}</p>
+        )}
+        {isStreaming && <span className="inline-block h-4 w-1.5 animate-pulse bg-current align-text-bottom" />}
+        {error && (
+          <div className="mt-2 border-t border-border pt-2">
+            <MessageErrorNotice error={error} onRetry={onRetry} onEditAndResend={onEditAndResend} />
+          </div>
+        )}
+        {retry && (
+          <div className="mt-2">
+            <RetryNotice retry={retry} onRetryNow={onRetryNow} onCancel={onCancel} />
+          </div>
+        )}
+        <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+          {variantCount > 1 && (
+            <VariantSwitcher
+              index={variantIndex}
+              count={variantCount}
+              onSelect={(index) => onSelectVariant?.(index)}
+              disabled={!onSelectVariant}
+            />
+          )}
+          <span className="opacity-60">
+            {timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+          </span>
+          {!isUser && model && (
+            <span className="truncate opacity-60" title={model}>
+              {shortModelName(model)}
+            </span>
+          )}
+          {!isUser && fallbackFrom && (
+            <Badge variant="outline" className="px-1.5 py-0 text-[10px] font-normal" title={`${fallbackFrom} was unavailable`}>
+              Fallback
+            </Badge>
+          )}
+          {!isUser && memories.length > 0 && (
+            <Popover>
+              <PopoverTrigger asChild>
+                <Button variant="ghost" size="sm" className="h-6 px-2 text-xs opacity-60 hover:opacity-100">
+                  <Brain className="h-3 w-3 mr-1" />
+                  {memories.length} {memories.length === 1 ? "memory" : "memories"}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent align="start" className="w-72 text-xs">
+                <p className="mb-2 font-medium">Remembered facts sent with this request</p>
+                <ul className="list-disc space-y-1 pl-4 text-muted-foreground">
+                  {memories.map(memory => (
+                    <li key={memory.id}>{memory.content}</li>
+                  ))}
+                </ul>
+              </PopoverContent>
+            </Popover>
+          )}
+          {isStopped && (
+            <span className="flex items-center gap-1 opacity-60">
+              <CirclePause className="h-3 w-3" />
+              Stopped
+            </span>
+          )}
+          {isStopped && onContinue && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={onContinue}>
+              <Play className="h-3 w-3 mr-1" />
+              Continue
+            </Button>
+          )}
+          {!isStreaming && onRegenerate && <RegenerateMenu onRegenerate={onRegenerate} />}
+          {onTogglePinned ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 px-2 text-xs"
+              onClick={onTogglePinned}
+              title={pinned ? "Let this message be left out when the chat gets long" : "Always send this message to the model"}
+            >
+              {pinned ? <PinOff className="h-3 w-3 mr-1" /> : <Pin className="h-3 w-3 mr-1" />}
+              {pinned ? "Unpin" : "Pin"}
+            </Button>
+          ) : (
+            pinned && <Pin className="h-3 w-3 opacity-60" aria-label="Pinned" />
+          )}
+          {isUser && onEdit && !isEditing && (
+            <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setIsEditing(true)}>
+              <Pencil className="h-3 w-3 mr-1" />
+              Edit
+            </Button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,48 @@
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Switch } from "@/components/ui/switch";
+import { GenerationSettingsPanel } from "./GenerationSettingsPanel";
+import type { GenerationParams } from "@/lib/generation-params";
+import { SlidersHorizontal } from "lucide-react";
+
+interface ChatParametersSheetProps {
+  /** This conversation's overrides, if it has any */
+  params?: GenerationParams;
+  defaults: GenerationParams;
+  onChange: (params: GenerationParams | undefined) => void;
+}
+
+export const ChatParametersSheet = ({ params, defaults, onChange }: ChatParametersSheetProps) => {
+  const isOverridden = params !== undefined;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+          <SlidersHorizontal className="h-4 w-4 mr-2" />
+          Parameters
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Generation Parameters</SheetTitle>
+          <SheetDescription>
+            Chats follow the defaults from settings unless you override them here.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center justify-between py-6">
+          <Label htmlFor="override_params">Override defaults for this chat</Label>
+          <Switch
+            id="override_params"
+            checked={isOverridden}
+            onCheckedChange={(checked) => onChange(checked ? defaults : undefined)}
+          />
+        </div>
+
+        <GenerationSettingsPanel value={params ?? defaults} onChange={onChange} disabled={!isOverridden} />
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,75 @@
+import { useRef, useState, type ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { getCodeFileName } from "@/lib/code-languages";
+import { cn, downloadText } from "@/lib/utils";
+import { Check, Copy, Download, WrapText } from "lucide-react";
+
+interface CodeBlockProps {
+  language?: string;
+  children: ReactNode;
+}
+
+const COPIED_RESET_DELAY = 2000;
+
+export const CodeBlock = ({ language, children }: CodeBlockProps) => {
+  const [copied, setCopied] = useState(false);
+  const [wrap, setWrap] = useState(false);
+  const codeRef = useRef<HTMLPreElement>(null);
+
+  // The highlighted markup is split into spans, so read the plain text back from the DOM
+  const getCode = () => codeRef.current?.textContent ?? "";
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(getCode());
+      setCopied(true);
+      setTimeout(() => setCopied(false), COPIED_RESET_DELAY);
+    } catch {
+      // Clipboard access can be denied outside secure contexts
+    }
+  };
+
+  const handleDownload = () => downloadText(getCodeFileName(language), getCode(), "text/plain");
+
+  const actions = [
+    { label: copied ? "Copied" : "Copy code", icon: copied ? Check : Copy, onClick: handleCopy },
+    { label: wrap ? "Disable line wrap" : "Wrap lines", icon: WrapText, onClick: () => setWrap(!wrap), active: wrap },
+    { label: "Download", icon: Download, onClick: handleDownload },
+  ];
+
+  return (
+    <div className="not-prose my-2 overflow-hidden rounded-md border border-border bg-code text-code-foreground">
+      <div className="flex items-center justify-between border-b border-border px-3 py-1">
+        <span className="font-mono text-xs text-muted-foreground">{language ?? "text"}</span>
+        <div className="flex items-center gap-1">
+          {actions.map(({ label, icon: Icon, onClick, active }) => (
+            <Tooltip key={label}>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className={cn("h-7 w-7 text-muted-foreground hover:text-foreground", active && "text-foreground")}
+                  onClick={onClick}
+                  aria-label={label}
+                >
+                  <Icon className="h-3.5 w-3.5" />
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>{label}</TooltipContent>
+            </Tooltip>
+          ))}
+        </div>
+      </div>
+      <pre
+        ref={codeRef}
+        className={cn(
+          "overflow-x-auto p-3 font-mono text-xs leading-relaxed",
+          wrap ? "whitespace-pre-wrap break-words" : "whitespace-pre"
+        )}
+      >
+        {children}
+      </pre>
+    </div>
+  );
+};
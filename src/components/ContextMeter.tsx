@@ -0,0 +1,43 @@
+import { Progress } from "@/components/ui/progress";
+import type { ContextStrategy } from "@/lib/context-window";
+import { formatTokenCount } from "@/lib/tokens";
+import { cn } from "@/lib/utils";
+
+interface ContextMeterProps {
+  /** Estimated tokens in the next prompt */
+  tokens: number;
+  /** Tokens the prompt may use before older messages are left out */
+  budget: number;
+  strategy: ContextStrategy;
+  /** The model's context length is a guess */
+  isEstimated?: boolean;
+}
+
+const OVERFLOW_NOTES: Record<ContextStrategy, string> = {
+  "drop-oldest": "the oldest messages are left out",
+  "keep-pinned": "the oldest unpinned messages are left out",
+  summarize: "older messages are summarized",
+};
+
+export const ContextMeter = ({ tokens, budget, strategy, isEstimated }: ContextMeterProps) => {
+  const usage = budget > 0 ? Math.min(100, (tokens / budget) * 100) : 100;
+  const isOver = tokens > budget;
+
+  return (
+    <div
+      className="flex items-center gap-2 px-4 pt-2 text-xs text-muted-foreground"
+      title={isEstimated ? "This model's context length is unknown, so a small window is assumed." : undefined}
+    >
+      <Progress
+        value={usage}
+        aria-label="Context window used"
+        className={cn("h-1.5 w-24", usage >= 80 && "[&>div]:bg-amber-500", isOver && "[&>div]:bg-destructive")}
+      />
+      <span className="tabular-nums">
+        {formatTokenCount(tokens)} / {formatTokenCount(budget)}
+        {isEstimated && "?"} tokens
+      </span>
+      {isOver && <span>· Over the limit, so {OVERFLOW_NOTES[strategy]}</span>}
+    </div>
+  );
+};
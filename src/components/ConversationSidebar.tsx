@@ -0,0 +1,192 @@
+import { useState } from "react";
+import {
+  Sidebar,
+  SidebarContent,
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarHeader,
+  SidebarInput,
+  SidebarMenu,
+  SidebarMenuAction,
+  SidebarMenuButton,
+  SidebarMenuItem,
+  SidebarMenuSkeleton,
+} from "@/components/ui/sidebar";
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { useConversations } from "@/hooks/use-conversations";
+import { groupConversations } from "@/lib/conversation-groups";
+import type { Conversation } from "@/types/chat";
+import { MessageSquare, MessageSquarePlus, MoreHorizontal, Pencil, Pin, PinOff, Trash2 } from "lucide-react";
+
+interface ConversationSidebarProps {
+  activeConversationId: string | null;
+  onSelectConversation: (id: string) => void;
+  onNewChat: () => void;
+  onConversationDeleted: (id: string) => void;
+}
+
+export const ConversationSidebar = ({
+  activeConversationId,
+  onSelectConversation,
+  onNewChat,
+  onConversationDeleted,
+}: ConversationSidebarProps) => {
+  const { conversations, isLoading, renameConversation, setPinned, removeConversation } = useConversations();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState("");
+  const [pendingDelete, setPendingDelete] = useState<Conversation | null>(null);
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = async () => {
+    const id = editingId;
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (id && title) {
+      await renameConversation({ id, title });
+    }
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter") {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === "Escape") {
+      setEditingId(null);
+    }
+  };
+
+  const confirmDelete = async () => {
+    if (!pendingDelete) return;
+    const { id } = pendingDelete;
+    setPendingDelete(null);
+    // Leave the chat first so it stops streaming and saving before it is gone
+    onConversationDeleted(id);
+    await removeConversation(id);
+  };
+
+  const groups = groupConversations(conversations);
+
+  return (
+    <Sidebar>
+      <SidebarHeader>
+        <Button variant="outline" className="w-full justify-start" onClick={onNewChat}>
+          <MessageSquarePlus className="h-4 w-4 mr-2" />
+          New Chat
+        </Button>
+      </SidebarHeader>
+
+      <SidebarContent>
+        {isLoading && (
+          <SidebarGroup>
+            <SidebarMenu>
+              {Array.from({ length: 5 }).map((_, index) => (
+                <SidebarMenuItem key={index}>
+                  <SidebarMenuSkeleton />
+                </SidebarMenuItem>
+              ))}
+            </SidebarMenu>
+          </SidebarGroup>
+        )}
+
+        {!isLoading && groups.length === 0 && (
+          <p className="px-4 py-2 text-sm text-muted-foreground">No saved conversations yet.</p>
+        )}
+
+        {groups.map(group => (
+          <SidebarGroup key={group.label}>
+            <SidebarGroupLabel>{group.label}</SidebarGroupLabel>
+            <SidebarGroupContent>
+              <SidebarMenu>
+                {group.conversations.map(conversation => (
+                  <SidebarMenuItem key={conversation.id}>
+                    {editingId === conversation.id ? (
+                      <SidebarInput
+                        autoFocus
+                        value={draftTitle}
+                        onChange={(e) => setDraftTitle(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={handleRenameKeyDown}
+                        aria-label="Conversation title"
+                      />
+                    ) : (
+                      <>
+                        <SidebarMenuButton
+                          isActive={conversation.id === activeConversationId}
+                          onClick={() => onSelectConversation(conversation.id)}
+                          onDoubleClick={() => startRename(conversation)}
+                          tooltip={conversation.title}
+                        >
+                          {conversation.pinned ? <Pin /> : <MessageSquare />}
+                          <span>{conversation.title}</span>
+                        </SidebarMenuButton>
+                        <DropdownMenu>
+                          <DropdownMenuTrigger asChild>
+                            <SidebarMenuAction showOnHover>
+                              <MoreHorizontal />
+                              <span className="sr-only">Conversation actions</span>
+                            </SidebarMenuAction>
+                          </DropdownMenuTrigger>
+                          <DropdownMenuContent
+                            side="right"
+                            align="start"
+                            // Keep focus on the rename input instead of the menu trigger
+                            onCloseAutoFocus={(e) => e.preventDefault()}
+                          >
+                            <DropdownMenuItem onSelect={() => startRename(conversation)}>
+                              <Pencil className="h-4 w-4 mr-2" />
+                              Rename
+                            </DropdownMenuItem>
+                            <DropdownMenuItem
+                              onSelect={() => setPinned({ id: conversation.id, pinned: !conversation.pinned })}
+                            >
+                              {conversation.pinned ? (
+                                <PinOff className="h-4 w-4 mr-2" />
+                              ) : (
+                                <Pin className="h-4 w-4 mr-2" />
+                              )}
+                              {conversation.pinned ? "Unpin" : "Pin"}
+                            </DropdownMenuItem>
+                            <DropdownMenuSeparator />
+                            <DropdownMenuItem
+                              className="text-destructive focus:text-destructive"
+                              onSelect={() => setPendingDelete(conversation)}
+                            >
+                              <Trash2 className="h-4 w-4 mr-2" />
+                              Delete
+                            </DropdownMenuItem>
+                          </DropdownMenuContent>
+                        </DropdownMenu>
+                      </>
+                    )}
+                  </SidebarMenuItem>
+                ))}
+              </SidebarMenu>
+            </SidebarGroupContent>
+          </SidebarGroup>
+        ))}
+      </SidebarContent>
+
+      <AlertDialog open={pendingDelete !== null} onOpenChange={(open) => !open && setPendingDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete conversation?</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{pendingDelete?.title}" and all of its messages will be permanently removed from this device.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={confirmDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Sidebar>
+  );
+};
@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import type { ConversationSummary } from "@/types/chat";
+
+interface ConversationSummarySheetProps {
+  summary: ConversationSummary;
+  /** Messages the summary stands in for */
+  coveredCount: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (content: string) => void;
+  /** Forgets the summary so the covered messages are sent again */
+  onClear: () => void;
+}
+
+export const ConversationSummarySheet = ({ summary, coveredCount, open, onOpenChange, onSave, onClear }: ConversationSummarySheetProps) => {
+  const [draft, setDraft] = useState(summary.content);
+
+  useEffect(() => {
+    if (open) setDraft(summary.content);
+  }, [open, summary.content]);
+
+  const save = () => {
+    onSave(draft.trim());
+    onOpenChange(false);
+  };
+
+  const clear = () => {
+    onClear();
+    onOpenChange(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Conversation Summary</SheetTitle>
+          <SheetDescription>
+            The model sees this instead of the first {coveredCount} {coveredCount === 1 ? "message" : "messages"}. It is
+            updated as the chat grows, and your edits are carried forward.
+          </SheetDescription>
+        </SheetHeader>
+
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="flex-1 resize-none"
+          aria-label="Summary"
+        />
+        <p className="text-xs text-muted-foreground">
+          Last updated {summary.updatedAt.toLocaleString([], { dateStyle: "medium", timeStyle: "short" })}
+        </p>
+
+        <SheetFooter className="gap-2">
+          <Button variant="ghost" onClick={clear} className="text-destructive hover:text-destructive">
+            Forget summary
+          </Button>
+          <Button onClick={save} disabled={!draft.trim()}>
+            Save
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,47 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useSettings } from "@/hooks/use-settings";
+import type { CustomInstructions } from "@/lib/prompt";
+
+export const CustomInstructionsCard = () => {
+  const [settings, updateSettings] = useSettings();
+  const instructions = settings.customInstructions;
+
+  const update = (changes: Partial<CustomInstructions>) => {
+    updateSettings({ customInstructions: { ...instructions, ...changes } });
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Custom Instructions</CardTitle>
+        <CardDescription>
+          Added to the system prompt of every chat. A chat can leave them out from its System Prompt panel.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="about_me">About me</Label>
+          <Textarea
+            id="about_me"
+            value={instructions.aboutMe}
+            onChange={(e) => update({ aboutMe: e.target.value })}
+            placeholder="I work on a TypeScript and React frontend with a Postgres backend."
+            className="min-h-[100px]"
+          />
+        </div>
+        <div className="space-y-2">
+          <Label htmlFor="how_to_respond">How to respond</Label>
+          <Textarea
+            id="how_to_respond"
+            value={instructions.howToRespond}
+            onChange={(e) => update({ howToRespond: e.target.value })}
+            placeholder="Be concise. Show code first, then explain."
+            className="min-h-[100px]"
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,100 @@
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ModelPicker } from "./ModelPicker";
+import { shortModelName } from "@/lib/model-filters";
+import { getProvider, type ProviderConnection } from "@/lib/providers";
+import { ArrowDown, ArrowUp, Route, X } from "lucide-react";
+
+/** Longer chains mostly add waiting before the error shows */
+const MAX_FALLBACK_MODELS = 2;
+
+interface FallbackModelsPopoverProps {
+  connection: ProviderConnection | null;
+  primaryModel: string;
+  value: string[];
+  onChange: (models: string[]) => void;
+}
+
+export const FallbackModelsPopover = ({ connection, primaryModel, value, onChange }: FallbackModelsPopoverProps) => {
+  const serverSide = connection ? getProvider(connection.providerId).capabilities.modelFallbacks : false;
+
+  const move = (index: number, offset: number) => {
+    const next = [...value];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onChange(next);
+  };
+
+  const add = (modelId: string) => {
+    if (modelId !== primaryModel && !value.includes(modelId)) {
+      onChange([...value, modelId]);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+          <Route className="h-4 w-4 mr-2" />
+          Fallbacks{value.length > 0 && ` (${value.length})`}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3" align="start">
+        <div className="space-y-1">
+          <h4 className="text-sm font-medium">Fallback models</h4>
+          <p className="text-xs text-muted-foreground">
+            Tried in order when {shortModelName(primaryModel)} is overloaded or unavailable
+            {serverSide ? ", by the provider in the same request." : ", one request after another."}
+          </p>
+        </div>
+
+        {value.length > 0 && (
+          <ol className="space-y-1">
+            {value.map((modelId, index) => (
+              <li key={modelId} className="flex items-center gap-1 text-sm">
+                <span className="w-4 text-xs text-muted-foreground tabular-nums">{index + 1}.</span>
+                <span className="flex-1 truncate" title={modelId}>
+                  {shortModelName(modelId)}
+                </span>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === 0}
+                  onClick={() => move(index, -1)}
+                  aria-label="Move up"
+                >
+                  <ArrowUp className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  disabled={index === value.length - 1}
+                  onClick={() => move(index, 1)}
+                  aria-label="Move down"
+                >
+                  <ArrowDown className="h-3 w-3" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-6 w-6"
+                  onClick={() => onChange(value.filter(id => id !== modelId))}
+                  aria-label={`Remove ${modelId}`}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </li>
+            ))}
+          </ol>
+        )}
+
+        {value.length < MAX_FALLBACK_MODELS ? (
+          <ModelPicker connection={connection} value="" onChange={add} placeholder="Add fallback model..." className="w-full max-w-none" />
+        ) : (
+          <p className="text-xs text-muted-foreground">Up to {MAX_FALLBACK_MODELS} fallback models per chat.</p>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { GENERATION_PRESETS, applyPreset, findMatchingPreset, type GenerationParams } from "@/lib/generation-params";
+import { X } from "lucide-react";
+
+interface GenerationSettingsPanelProps {
+  value: GenerationParams;
+  onChange: (params: GenerationParams) => void;
+  disabled?: boolean;
+}
+
+interface SliderFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  disabled?: boolean;
+  onChange: (value: number) => void;
+}
+
+const SliderField = ({ id, label, value, min, max, step, disabled, onChange }: SliderFieldProps) => (
+  <div className="space-y-2">
+    <div className="flex items-center justify-between">
+      <Label htmlFor={id}>{label}</Label>
+      <span className="text-sm tabular-nums text-muted-foreground">{value}</span>
+    </div>
+    <Slider
+      id={id}
+      min={min}
+      max={max}
+      step={step}
+      value={[value]}
+      disabled={disabled}
+      onValueChange={([next]) => onChange(next)}
+    />
+  </div>
+);
+
+const CUSTOM_PRESET = "custom";
+const MAX_STOP_SEQUENCES = 4;
+
+export const GenerationSettingsPanel = ({ value, onChange, disabled }: GenerationSettingsPanelProps) => {
+  const [stopDraft, setStopDraft] = useState("");
+  const matchingPreset = findMatchingPreset(value);
+
+  const update = <K extends keyof GenerationParams>(key: K, fieldValue: GenerationParams[K]) => {
+    onChange({ ...value, [key]: fieldValue });
+  };
+
+  const handlePresetChange = (name: string) => {
+    const preset = GENERATION_PRESETS.find(p => p.name === name);
+    if (preset) {
+      onChange(applyPreset(value, preset));
+    }
+  };
+
+  const addStopSequence = () => {
+    // Allow "\n" to be typed as an escape for a newline stop sequence
+    const sequence = stopDraft.replace(/\\n/g, "\n");
+    if (sequence && !value.stop.includes(sequence) && value.stop.length < MAX_STOP_SEQUENCES) {
+      update("stop", [...value.stop, sequence]);
+    }
+    setStopDraft("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Label htmlFor="preset">Preset</Label>
+        <Select value={matchingPreset?.name ?? CUSTOM_PRESET} onValueChange={handlePresetChange} disabled={disabled}>
+          <SelectTrigger id="preset">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {GENERATION_PRESETS.map(preset => (
+              <SelectItem key={preset.name} value={preset.name}>
+                {preset.name} — <span className="text-muted-foreground">{preset.description}</span>
+              </SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_PRESET} disabled>
+              Custom
+            </SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <SliderField
+        id="temperature"
+        label="Temperature"
+        value={value.temperature}
+        min={0}
+        max={2}
+        step={0.05}
+        disabled={disabled}
+        onChange={(temperature) => update("temperature", temperature)}
+      />
+      <SliderField
+        id="top_p"
+        label="Top P"
+        value={value.top_p}
+        min={0}
+        max={1}
+        step={0.05}
+        disabled={disabled}
+        onChange={(topP) => update("top_p", topP)}
+      />
+      <SliderField
+        id="frequency_penalty"
+        label="Frequency penalty"
+        value={value.frequency_penalty}
+        min={-2}
+        max={2}
+        step={0.1}
+        disabled={disabled}
+        onChange={(penalty) => update("frequency_penalty", penalty)}
+      />
+      <SliderField
+        id="presence_penalty"
+        label="Presence penalty"
+        value={value.presence_penalty}
+        min={-2}
+        max={2}
+        step={0.1}
+        disabled={disabled}
+        onChange={(penalty) => update("presence_penalty", penalty)}
+      />
+
+      <div className="space-y-2">
+        <Label htmlFor="max_tokens">Max tokens</Label>
+        <Input
+          id="max_tokens"
+          type="number"
+          min={1}
+          value={value.max_tokens}
+          disabled={disabled}
+          onChange={(e) => update("max_tokens", Math.max(1, Number(e.target.value) || 1))}
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="stop">Stop sequences</Label>
+        <Input
+          id="stop"
+          value={stopDraft}
+          placeholder={value.stop.length < MAX_STOP_SEQUENCES ? "Type and press Enter" : `Up to ${MAX_STOP_SEQUENCES} sequences`}
+          disabled={disabled || value.stop.length >= MAX_STOP_SEQUENCES}
+          onChange={(e) => setStopDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault();
+              addStopSequence();
+            }
+          }}
+        />
+        {value.stop.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {value.stop.map(sequence => (
+              <Badge key={sequence} variant="secondary" className="gap-1 font-mono">
+                {JSON.stringify(sequence).slice(1, -1)}
+                <button
+                  type="button"
+                  aria-label="Remove stop sequence"
+                  disabled={disabled}
+                  onClick={() => update("stop", value.stop.filter(s => s !== sequence))}
+                >
+                  <X className="h-3 w-3" />
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="use_seed">Fixed seed</Label>
+          <Switch
+            id="use_seed"
+            checked={value.seed !== null}
+            disabled={disabled}
+            onCheckedChange={(checked) => update("seed", checked ? 42 : null)}
+          />
+        </div>
+        {value.seed !== null && (
+          <Input
+            type="number"
+            aria-label="Seed"
+            value={value.seed}
+            disabled={disabled}
+            onChange={(e) => update("seed", Math.trunc(Number(e.target.value)) || 0)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,48 @@
+import { isValidElement } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import rehypeSanitize from "rehype-sanitize";
+import rehypeHighlight from "rehype-highlight";
+import { CodeBlock } from "./CodeBlock";
+import { getCodeLanguage } from "@/lib/code-languages";
+import { cn } from "@/lib/utils";
+
+interface MarkdownContentProps {
+  content: string;
+  className?: string;
+}
+
+const components: Components = {
+  // Model output is untrusted, so links never get access to this window
+  a: ({ node, ...props }) => <a {...props} target="_blank" rel="noopener noreferrer" />,
+  // Fenced blocks arrive as <pre><code class="language-*">
+  pre: ({ children }) => {
+    const language = isValidElement<{ className?: string }>(children)
+      ? getCodeLanguage(children.props.className)
+      : undefined;
+    return <CodeBlock language={language}>{children}</CodeBlock>;
+  },
+};
+
+/**
+ * Renders GitHub-flavored Markdown. Raw HTML in the source is never
+ * interpreted, and the generated tree is sanitized before code blocks are
+ * highlighted.
+ */
+export const MarkdownContent = ({ content, className }: MarkdownContentProps) => {
+  return (
+    <div
+      className={cn(
+        "prose prose-sm prose-chat max-w-none break-words leading-relaxed",
+        "prose-p:my-2 prose-pre:my-2 prose-ul:my-2 prose-ol:my-2 prose-headings:mb-2 prose-headings:mt-4",
+        "prose-code:before:content-none prose-code:after:content-none prose-code:rounded prose-code:bg-code prose-code:px-1 prose-code:py-0.5 prose-code:font-normal",
+        "prose-a:underline-offset-2 [&>*:first-child]:mt-0 [&>*:last-child]:mb-0",
+        className
+      )}
+    >
+      <ReactMarkdown remarkPlugins={[remarkGfm]} rehypePlugins={[rehypeSanitize, rehypeHighlight]} components={components}>
+        {content}
+      </ReactMarkdown>
+    </div>
+  );
+};
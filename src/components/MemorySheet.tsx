@@ -0,0 +1,167 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { useMemories } from "@/hooks/use-memories";
+import { useSettings } from "@/hooks/use-settings";
+import type { Memory } from "@/types/memory";
+import { Brain, Check, Pencil, Plus, Sparkles, Trash2, X } from "lucide-react";
+
+interface MemorySheetProps {
+  conversationId: string;
+  /** Asks the model for facts from this chat worth remembering */
+  onSuggest: () => Promise<string[]>;
+}
+
+export const MemorySheet = ({ conversationId, onSuggest }: MemorySheetProps) => {
+  const [settings, updateSettings] = useSettings();
+  const { memories, addMemory, editMemory, removeMemory } = useMemories();
+  const [newMemory, setNewMemory] = useState("");
+  const [editing, setEditing] = useState<{ memory: Memory; content: string } | null>(null);
+  const [suggestions, setSuggestions] = useState<string[] | null>(null);
+  const [isSuggesting, setIsSuggesting] = useState(false);
+  const [suggestError, setSuggestError] = useState<string | null>(null);
+
+  const add = async () => {
+    if (!newMemory.trim()) return;
+    await addMemory({ content: newMemory.trim() });
+    setNewMemory("");
+  };
+
+  const commitEdit = async () => {
+    if (editing && editing.content.trim()) {
+      await editMemory({ memory: editing.memory, content: editing.content.trim() });
+    }
+    setEditing(null);
+  };
+
+  const suggest = async () => {
+    setIsSuggesting(true);
+    setSuggestError(null);
+    try {
+      setSuggestions(await onSuggest());
+    } catch {
+      setSuggestError("Could not get suggestions. Please try again.");
+    } finally {
+      setIsSuggesting(false);
+    }
+  };
+
+  const updateSuggestion = (index: number, content: string | null) => {
+    setSuggestions(prev =>
+      prev ? (content === null ? prev.filter((_, i) => i !== index) : prev.map((item, i) => (i === index ? content : item))) : prev
+    );
+  };
+
+  const keepSuggestion = async (index: number) => {
+    const content = suggestions?.[index]?.trim();
+    if (content) {
+      await addMemory({ content, conversationId });
+    }
+    updateSuggestion(index, null);
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+          <Brain className="h-4 w-4 mr-2" />
+          Memory
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>Memory</SheetTitle>
+          <SheetDescription>
+            Facts kept on this device and shared by all chats. The ones most related to your message are sent along with it.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex items-center justify-between">
+          <Label htmlFor="memory_enabled">Use memories in replies</Label>
+          <Switch
+            id="memory_enabled"
+            checked={settings.memoryEnabled}
+            onCheckedChange={(memoryEnabled) => updateSettings({ memoryEnabled })}
+          />
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            value={newMemory}
+            onChange={(e) => setNewMemory(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && add()}
+            placeholder="Our API uses snake_case"
+            aria-label="New memory"
+          />
+          <Button variant="outline" size="icon" onClick={add} disabled={!newMemory.trim()} aria-label="Add memory">
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          <Button variant="outline" className="w-full" onClick={suggest} disabled={isSuggesting}>
+            <Sparkles className="h-4 w-4 mr-2" />
+            {isSuggesting ? "Reading this chat..." : "Suggest from this chat"}
+          </Button>
+          {suggestError && <p className="text-sm text-destructive">{suggestError}</p>}
+          {suggestions?.length === 0 && <p className="text-xs text-muted-foreground">Nothing new worth remembering here.</p>}
+          {suggestions?.map((suggestion, index) => (
+            <div key={index} className="flex items-center gap-1 rounded-md border border-dashed border-border p-1">
+              <Input
+                value={suggestion}
+                onChange={(e) => updateSuggestion(index, e.target.value)}
+                className="h-8 border-0"
+                aria-label="Suggested memory"
+              />
+              <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => keepSuggestion(index)} aria-label="Remember">
+                <Check className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => updateSuggestion(index, null)} aria-label="Dismiss">
+                <X className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+        </div>
+
+        <ul className="space-y-2">
+          {memories.map(memory => (
+            <li key={memory.id} className="flex items-center gap-2 rounded-md border border-border px-3 py-2">
+              {editing?.memory.id === memory.id ? (
+                <Input
+                  autoFocus
+                  value={editing.content}
+                  onChange={(e) => setEditing({ memory, content: e.target.value })}
+                  onBlur={commitEdit}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") commitEdit();
+                    if (e.key === "Escape") setEditing(null);
+                  }}
+                  className="h-7"
+                  aria-label="Memory"
+                />
+              ) : (
+                <span className="min-w-0 flex-1 text-sm">{memory.content}</span>
+              )}
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 shrink-0"
+                onClick={() => setEditing({ memory, content: memory.content })}
+                aria-label="Edit memory"
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </Button>
+              <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => removeMemory(memory.id)} aria-label="Delete memory">
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </li>
+          ))}
+        </ul>
+        {memories.length === 0 && <p className="text-center text-xs text-muted-foreground">No memories yet.</p>}
+      </SheetContent>
+    </Sheet>
+  );
+};
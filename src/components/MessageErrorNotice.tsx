@@ -0,0 +1,41 @@
+import { Button } from "@/components/ui/button";
+import { CHAT_ERROR_TITLES } from "@/lib/chat-errors";
+import type { ChatError } from "@/types/chat";
+import { AlertCircle, Pencil, RotateCw } from "lucide-react";
+
+interface MessageErrorNoticeProps {
+  error: ChatError;
+  onRetry?: () => void;
+  /** Reopens the message this reply answers for editing */
+  onEditAndResend?: () => void;
+}
+
+export const MessageErrorNotice = ({ error, onRetry, onEditAndResend }: MessageErrorNoticeProps) => {
+  return (
+    <div className="space-y-2 text-sm" role="alert">
+      <div className="flex items-start gap-2 text-destructive">
+        <AlertCircle className="mt-0.5 h-4 w-4 shrink-0" />
+        <div>
+          <p className="font-medium">{CHAT_ERROR_TITLES[error.kind]}</p>
+          <p className="text-xs text-muted-foreground">{error.message}</p>
+        </div>
+      </div>
+      {(onRetry || onEditAndResend) && (
+        <div className="flex gap-2">
+          {onRetry && (
+            <Button variant="secondary" size="sm" className="h-7 px-2 text-xs" onClick={onRetry}>
+              <RotateCw className="h-3 w-3 mr-1" />
+              Retry
+            </Button>
+          )}
+          {onEditAndResend && (
+            <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onEditAndResend}>
+              <Pencil className="h-3 w-3 mr-1" />
+              Edit and resend
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
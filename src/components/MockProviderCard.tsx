@@ -0,0 +1,113 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useSettings } from "@/hooks/use-settings";
+import { MOCK_FAILURES, type MockFailure, type MockProviderOptions } from "@/lib/providers";
+
+const LATENCY_OPTIONS = [0, 500, 2000, 5000];
+const SPEED_OPTIONS = [0, 5, 20, 60];
+
+const formatLatency = (ms: number) => (ms === 0 ? "None" : ms < 1000 ? `${ms} ms` : `${ms / 1000} s`);
+const formatSpeed = (wordsPerSecond: number) => (wordsPerSecond === 0 ? "Instant" : `${wordsPerSecond} words/s`);
+
+export const MockProviderCard = () => {
+  const [settings, updateSettings] = useSettings();
+  const options = settings.mockProvider;
+
+  const update = (changes: Partial<MockProviderOptions>) => {
+    updateSettings({ mockProvider: { ...options, ...changes } });
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Offline Mock</CardTitle>
+        <CardDescription>Controls how keys using the offline mock provider answer. Changes apply to the next request.</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="mock_reply_source">Replies</Label>
+          <Select
+            value={options.replySource}
+            onValueChange={(replySource) => update({ replySource: replySource as MockProviderOptions["replySource"] })}
+          >
+            <SelectTrigger id="mock_reply_source" className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="script">Scripted</SelectItem>
+              <SelectItem value="echo">Echo my message</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        {options.replySource === "script" && (
+          <div className="space-y-2">
+            <Label htmlFor="mock_script">Script</Label>
+            <Textarea
+              id="mock_script"
+              value={options.script}
+              onChange={(e) => update({ script: e.target.value })}
+              className="min-h-[160px] font-mono text-xs"
+            />
+            <p className="text-xs text-muted-foreground">
+              Replies are played in order and repeat at the end. Separate them with a line containing only ---. Paste recorded replies here to replay them.
+            </p>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="mock_latency">Latency</Label>
+          <Select value={String(options.latencyMs)} onValueChange={(latencyMs) => update({ latencyMs: Number(latencyMs) })}>
+            <SelectTrigger id="mock_latency" className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LATENCY_OPTIONS.map(ms => (
+                <SelectItem key={ms} value={String(ms)}>
+                  {formatLatency(ms)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="mock_speed">Streaming speed</Label>
+          <Select
+            value={String(options.wordsPerSecond)}
+            onValueChange={(wordsPerSecond) => update({ wordsPerSecond: Number(wordsPerSecond) })}
+          >
+            <SelectTrigger id="mock_speed" className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {SPEED_OPTIONS.map(speed => (
+                <SelectItem key={speed} value={String(speed)}>
+                  {formatSpeed(speed)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="flex items-center justify-between gap-4">
+          <Label htmlFor="mock_failure">Simulate failure</Label>
+          <Select value={options.failure} onValueChange={(failure) => update({ failure: failure as MockFailure })}>
+            <SelectTrigger id="mock_failure" className="w-[180px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MOCK_FAILURES.map(failure => (
+                <SelectItem key={failure.value} value={failure.value}>
+                  {failure.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useModels } from "@/hooks/use-models";
+import { useSettings } from "@/hooks/use-settings";
+import {
+  DEFAULT_MODEL_FILTERS,
+  filterModels,
+  formatContextLength,
+  formatModelPrice,
+  shortModelName,
+  type ModelFilters,
+  type PriceFilter,
+} from "@/lib/model-filters";
+import { getProvider, type ProviderConnection } from "@/lib/providers";
+import { cn } from "@/lib/utils";
+import type { ModelInfo } from "@/types/models";
+import { Check, ChevronsUpDown, Star } from "lucide-react";
+
+interface ModelPickerProps {
+  connection: ProviderConnection | null;
+  value: string;
+  onChange: (modelId: string) => void;
+  /** Shown when no model is selected */
+  placeholder?: string;
+  className?: string;
+}
+
+const CONTEXT_OPTIONS = [0, 32_000, 128_000, 200_000, 1_000_000];
+const PRICE_OPTIONS = [Infinity, 1, 5, 20];
+const MODALITY_OPTIONS = ["any", "image", "file", "audio"];
+
+export const ModelPicker = ({ connection, value, onChange, placeholder = "Select a model", className }: ModelPickerProps) => {
+  const [open, setOpen] = useState(false);
+  const [filters, setFilters] = useState<ModelFilters>(DEFAULT_MODEL_FILTERS);
+  const { data: models = [], isLoading, isError } = useModels(connection);
+  const [settings, updateSettings] = useSettings();
+
+  // Without pricing or context data there is nothing to filter on
+  const hasMetadata = connection ? getProvider(connection.providerId).capabilities.modelMetadata : true;
+  const favorites = new Set(settings.favoriteModels);
+  const filtered = hasMetadata ? filterModels(models, filters) : models;
+  const favoriteModels = filtered.filter(model => favorites.has(model.id));
+  const otherModels = filtered.filter(model => !favorites.has(model.id));
+
+  const updateFilter = <K extends keyof ModelFilters>(key: K, filterValue: ModelFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: filterValue }));
+  };
+
+  const toggleFavorite = (modelId: string) => {
+    updateSettings({
+      favoriteModels: favorites.has(modelId)
+        ? settings.favoriteModels.filter(id => id !== modelId)
+        : [...settings.favoriteModels, modelId],
+    });
+  };
+
+  const selectModel = (modelId: string) => {
+    onChange(modelId);
+    setOpen(false);
+  };
+
+  const renderModel = (model: ModelInfo) => (
+    <CommandItem
+      key={model.id}
+      value={`${model.name} ${model.id}`}
+      onSelect={() => selectModel(model.id)}
+      className="flex items-start gap-2"
+    >
+      <Check className={cn("mt-0.5 h-4 w-4 shrink-0", model.id === value ? "opacity-100" : "opacity-0")} />
+      <div className="min-w-0 flex-1">
+        <div className="truncate text-sm">{model.name}</div>
+        {hasMetadata ? (
+          <div className="truncate text-xs text-muted-foreground">
+            {formatContextLength(model.contextLength)} context · {formatModelPrice(model)}
+          </div>
+        ) : (
+          model.description && <div className="truncate text-xs text-muted-foreground">{model.description}</div>
+        )}
+      </div>
+      <button
+        type="button"
+        aria-label={favorites.has(model.id) ? "Remove from favorites" : "Add to favorites"}
+        className="shrink-0 rounded p-0.5 hover:bg-muted"
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleFavorite(model.id);
+        }}
+      >
+        <Star className={cn("h-4 w-4", favorites.has(model.id) ? "fill-primary text-primary" : "text-muted-foreground")} />
+      </button>
+    </CommandItem>
+  );
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          role="combobox"
+          aria-expanded={open}
+          className={cn("max-w-[240px] justify-between", className)}
+        >
+          <span className="truncate">
+            {value ? models.find(model => model.id === value)?.name ?? shortModelName(value) : placeholder}
+          </span>
+          <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-[420px] p-0" align="start">
+        {hasMetadata && (
+          <div className="flex flex-wrap items-center gap-2 border-b border-border p-2">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              value={filters.price}
+              onValueChange={(price) => price && updateFilter("price", price as PriceFilter)}
+            >
+              <ToggleGroupItem value="all">All</ToggleGroupItem>
+              <ToggleGroupItem value="free">Free</ToggleGroupItem>
+              <ToggleGroupItem value="paid">Paid</ToggleGroupItem>
+            </ToggleGroup>
+
+            <Select
+              value={String(filters.minContextLength)}
+              onValueChange={(minContextLength) => updateFilter("minContextLength", Number(minContextLength))}
+            >
+              <SelectTrigger className="h-8 w-[110px] text-xs" aria-label="Minimum context length">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CONTEXT_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option === 0 ? "Any context" : `${formatContextLength(option)}+`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select value={filters.modality} onValueChange={(modality) => updateFilter("modality", modality)}>
+              <SelectTrigger className="h-8 w-[100px] text-xs" aria-label="Input modality">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MODALITY_OPTIONS.map(option => (
+                  <SelectItem key={option} value={option}>
+                    {option === "any" ? "Any input" : `${option[0].toUpperCase()}${option.slice(1)} input`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            <Select
+              value={String(filters.maxPromptPrice)}
+              onValueChange={(maxPromptPrice) => updateFilter("maxPromptPrice", Number(maxPromptPrice))}
+            >
+              <SelectTrigger className="h-8 w-[110px] text-xs" aria-label="Maximum prompt price">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {PRICE_OPTIONS.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    {option === Infinity ? "Any price" : `≤ $${option} / 1M`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <Command>
+          <CommandInput placeholder="Search models..." />
+          <CommandList>
+            <CommandEmpty>
+              {isLoading ? "Loading models..." : isError ? "Could not load the model list." : "No models match."}
+            </CommandEmpty>
+            {favoriteModels.length > 0 && <CommandGroup heading="Favorites">{favoriteModels.map(renderModel)}</CommandGroup>}
+            {otherModels.length > 0 && <CommandGroup heading="All models">{otherModels.map(renderModel)}</CommandGroup>}
+          </CommandList>
+        </Command>
+      </PopoverContent>
+    </Popover>
+  );
+};
@@ -0,0 +1,51 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import type { Persona } from "@/lib/personas";
+import { ChevronDown, MessageSquarePlus, Settings, UserRound } from "lucide-react";
+
+interface NewChatMenuProps {
+  personas: Persona[];
+  onNewChat: (personaId?: string) => void;
+}
+
+export const NewChatMenu = ({ personas, onNewChat }: NewChatMenuProps) => {
+  const navigate = useNavigate();
+
+  return (
+    <div className="flex">
+      <Button variant="outline" size="sm" onClick={() => onNewChat()} className="rounded-r-none">
+        <MessageSquarePlus className="h-4 w-4 mr-2" />
+        New Chat
+      </Button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="rounded-l-none border-l-0 px-2" aria-label="New chat with a persona">
+            <ChevronDown className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>Start with a persona</DropdownMenuLabel>
+          {personas.map(persona => (
+            <DropdownMenuItem key={persona.id} onSelect={() => onNewChat(persona.id)}>
+              <UserRound className="h-4 w-4 mr-2" />
+              <span className="truncate">{persona.name}</span>
+            </DropdownMenuItem>
+          ))}
+          {personas.length > 0 && <DropdownMenuSeparator />}
+          <DropdownMenuItem onSelect={() => navigate("/settings")}>
+            <Settings className="h-4 w-4 mr-2" />
+            Manage personas
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ModelPicker } from "./ModelPicker";
+import { GenerationSettingsPanel } from "./GenerationSettingsPanel";
+import { useSettings } from "@/hooks/use-settings";
+import { useProviderConnection } from "@/hooks/use-api-key";
+import { shortModelName } from "@/lib/model-filters";
+import type { Persona } from "@/lib/personas";
+import { createId } from "@/lib/utils";
+import { Pencil, Plus, Trash2, UserRound } from "lucide-react";
+
+const createPersona = (): Persona => ({ id: createId(), name: "", systemPrompt: "" });
+
+export const PersonasCard = () => {
+  const [settings, updateSettings] = useSettings();
+  const connection = useProviderConnection();
+  const [draft, setDraft] = useState<Persona | null>(null);
+
+  const update = (changes: Partial<Persona>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const persona = { ...draft, name: draft.name.trim(), systemPrompt: draft.systemPrompt.trim(), welcome: draft.welcome?.trim() || undefined };
+    const exists = settings.personas.some(item => item.id === persona.id);
+    updateSettings({
+      personas: exists
+        ? settings.personas.map(item => (item.id === persona.id ? persona : item))
+        : [...settings.personas, persona],
+    });
+    setDraft(null);
+  };
+
+  const remove = (id: string) => {
+    updateSettings({ personas: settings.personas.filter(persona => persona.id !== id) });
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Personas</CardTitle>
+        <CardDescription>
+          Named starting points for new chats, picked from the arrow next to New Chat. Existing chats keep the prompt they started with.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {settings.personas.length > 0 && (
+          <ul className="space-y-2">
+            {settings.personas.map(persona => (
+              <li key={persona.id} className="flex items-center gap-2 rounded-md border border-border px-3 py-2">
+                <UserRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm">{persona.name}</span>
+                  <span className="block truncate text-xs text-muted-foreground">
+                    {persona.model ? shortModelName(persona.model) : "Default model"}
+                    {persona.params && " · custom parameters"}
+                  </span>
+                </span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setDraft(persona)} aria-label={`Edit ${persona.name}`}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => remove(persona.id)} aria-label={`Remove ${persona.name}`}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Button variant="outline" className="w-full" onClick={() => setDraft(createPersona())}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add persona
+        </Button>
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft && settings.personas.some(item => item.id === draft.id) ? "Edit Persona" : "New Persona"}</DialogTitle>
+            <DialogDescription>Applied when a new chat is started with this persona.</DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="persona_name">Name</Label>
+                <Input id="persona_name" value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="Code reviewer" />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="persona_prompt">System prompt</Label>
+                <Textarea
+                  id="persona_prompt"
+                  value={draft.systemPrompt}
+                  onChange={(e) => update({ systemPrompt: e.target.value })}
+                  className="min-h-[120px]"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="persona_welcome">Welcome message</Label>
+                <Input
+                  id="persona_welcome"
+                  value={draft.welcome ?? ""}
+                  onChange={(e) => update({ welcome: e.target.value })}
+                  placeholder="Shown as the first message of the chat"
+                />
+              </div>
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label>Model</Label>
+                  {draft.model && (
+                    <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => update({ model: undefined })}>
+                      Use default
+                    </Button>
+                  )}
+                </div>
+                <ModelPicker
+                  connection={connection}
+                  value={draft.model ?? ""}
+                  onChange={(model) => update({ model })}
+                  placeholder="Default model"
+                  className="w-full max-w-none"
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="persona_params">Override generation defaults</Label>
+                <Switch
+                  id="persona_params"
+                  checked={draft.params !== undefined}
+                  onCheckedChange={(checked) => update({ params: checked ? settings.generationParams : undefined })}
+                />
+              </div>
+              {draft.params && <GenerationSettingsPanel value={draft.params} onChange={(params) => update({ params })} />}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={!draft?.name.trim() || !draft.systemPrompt.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,189 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { useSettings } from "@/hooks/use-settings";
+import {
+  fillTemplate,
+  getCategories,
+  getDefaultValues,
+  searchTemplates,
+  type PromptTemplate,
+  type TemplateVariable,
+} from "@/lib/prompt-templates";
+import { BookText, ChevronLeft, Search } from "lucide-react";
+
+const ALL_CATEGORIES = "__all__";
+
+interface PromptLibraryDialogProps {
+  /** Receives the filled-in prompt to put in the message box */
+  onInsert: (text: string) => void;
+  disabled?: boolean;
+}
+
+interface VariableInputProps {
+  variable: TemplateVariable;
+  value: string;
+  onChange: (value: string) => void;
+}
+
+const VariableInput = ({ variable, value, onChange }: VariableInputProps) => {
+  const id = `template_var_${variable.name}`;
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{variable.name}</Label>
+      {variable.type === "multiline" ? (
+        <Textarea id={id} value={value} onChange={(e) => onChange(e.target.value)} className="min-h-[100px]" />
+      ) : variable.type === "select" && variable.options?.length ? (
+        <Select value={value} onValueChange={onChange}>
+          <SelectTrigger id={id}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {variable.options.map(option => (
+              <SelectItem key={option} value={option}>
+                {option}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <Input id={id} type={variable.type === "number" ? "number" : "text"} value={value} onChange={(e) => onChange(e.target.value)} />
+      )}
+    </div>
+  );
+};
+
+export const PromptLibraryDialog = ({ onInsert, disabled }: PromptLibraryDialogProps) => {
+  const [settings] = useSettings();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [category, setCategory] = useState(ALL_CATEGORIES);
+  const [selected, setSelected] = useState<PromptTemplate | null>(null);
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  const templates = settings.promptTemplates;
+  const categories = getCategories(templates);
+  const results = searchTemplates(templates, query, category === ALL_CATEGORIES ? null : category);
+
+  const select = (template: PromptTemplate) => {
+    setSelected(template);
+    setValues(getDefaultValues(template));
+  };
+
+  const insert = (template: PromptTemplate) => {
+    onInsert(fillTemplate(template.body, values));
+    setOpen(false);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next);
+    if (!next) {
+      setSelected(null);
+      setQuery("");
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button type="button" variant="ghost" size="icon" disabled={disabled} aria-label="Prompt library" title="Prompt library">
+          <BookText className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-h-[90vh] overflow-y-auto">
+        {selected ? (
+          <>
+            <DialogHeader>
+              <DialogTitle>{selected.name}</DialogTitle>
+              <DialogDescription>Fill in the blanks, then review the prompt in the message box before sending.</DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              {selected.variables.map(variable => (
+                <VariableInput
+                  key={variable.name}
+                  variable={variable}
+                  value={values[variable.name] ?? ""}
+                  onChange={(value) => setValues(prev => ({ ...prev, [variable.name]: value }))}
+                />
+              ))}
+              <div className="space-y-2">
+                <Label>Preview</Label>
+                <pre className="max-h-48 overflow-y-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs text-muted-foreground">
+                  {fillTemplate(selected.body, values)}
+                </pre>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button variant="ghost" onClick={() => setSelected(null)}>
+                <ChevronLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+              <Button onClick={() => insert(selected)}>Insert</Button>
+            </DialogFooter>
+          </>
+        ) : (
+          <>
+            <DialogHeader>
+              <DialogTitle>Prompt Library</DialogTitle>
+              <DialogDescription>
+                Saved prompts with blanks to fill in.{" "}
+                <Link to="/settings" className="underline underline-offset-2">
+                  Manage templates
+                </Link>
+              </DialogDescription>
+            </DialogHeader>
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+                <Input value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search prompts" className="pl-8" aria-label="Search prompts" />
+              </div>
+              {categories.length > 0 && (
+                <Select value={category} onValueChange={setCategory}>
+                  <SelectTrigger className="w-[140px]" aria-label="Category">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_CATEGORIES}>All categories</SelectItem>
+                    {categories.map(option => (
+                      <SelectItem key={option} value={option}>
+                        {option}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            <ul className="space-y-2">
+              {results.map(template => (
+                <li key={template.id}>
+                  <button
+                    type="button"
+                    onClick={() => (template.variables.length > 0 ? select(template) : insert(template))}
+                    className="w-full rounded-md border border-border px-3 py-2 text-left hover:bg-accent"
+                  >
+                    <span className="flex items-center justify-between gap-2">
+                      <span className="truncate text-sm font-medium">{template.name}</span>
+                      {template.category && <span className="shrink-0 text-xs text-muted-foreground">{template.category}</span>}
+                    </span>
+                    <span className="line-clamp-2 text-xs text-muted-foreground">{template.body}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+            {results.length === 0 && (
+              <p className="text-center text-sm text-muted-foreground">
+                {templates.length === 0 ? "No saved prompts yet." : "No prompts match your search."}
+              </p>
+            )}
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,243 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useSettings } from "@/hooks/use-settings";
+import { useToast } from "@/hooks/use-toast";
+import {
+  exportTemplates,
+  getCategories,
+  mergeTemplates,
+  parseTemplateFile,
+  syncVariables,
+  TEMPLATE_VARIABLE_TYPES,
+  type PromptTemplate,
+  type TemplateVariable,
+  type TemplateVariableType,
+} from "@/lib/prompt-templates";
+import { createId, downloadText } from "@/lib/utils";
+import { Download, FileText, Pencil, Plus, Trash2, Upload } from "lucide-react";
+
+const LIBRARY_FILE_NAME = "prompt-library.json";
+
+const createTemplate = (): PromptTemplate => ({ id: createId(), name: "", category: "", body: "", variables: [] });
+
+export const PromptTemplatesCard = () => {
+  const [settings, updateSettings] = useSettings();
+  const { toast } = useToast();
+  const [draft, setDraft] = useState<PromptTemplate | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const templates = settings.promptTemplates;
+
+  const updateDraft = (changes: Partial<PromptTemplate>) => {
+    setDraft(prev => {
+      if (!prev) return prev;
+      const next = { ...prev, ...changes };
+      return { ...next, variables: syncVariables(next.body, next.variables) };
+    });
+  };
+
+  const updateVariable = (name: string, changes: Partial<TemplateVariable>) => {
+    setDraft(prev =>
+      prev ? { ...prev, variables: prev.variables.map(variable => (variable.name === name ? { ...variable, ...changes } : variable)) } : prev
+    );
+  };
+
+  const save = () => {
+    if (!draft) return;
+    const template = {
+      ...draft,
+      name: draft.name.trim(),
+      category: draft.category.trim(),
+      variables: draft.variables.map(variable => ({
+        ...variable,
+        options: variable.type === "select" ? variable.options?.map(option => option.trim()).filter(Boolean) : undefined,
+      })),
+    };
+    const exists = templates.some(item => item.id === template.id);
+    updateSettings({
+      promptTemplates: exists ? templates.map(item => (item.id === template.id ? template : item)) : [...templates, template],
+    });
+    setDraft(null);
+  };
+
+  const remove = (id: string) => {
+    updateSettings({ promptTemplates: templates.filter(template => template.id !== id) });
+  };
+
+  const handleExport = () => downloadText(LIBRARY_FILE_NAME, exportTemplates(templates), "application/json");
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parseTemplateFile(await file.text());
+      updateSettings({ promptTemplates: mergeTemplates(templates, imported) });
+      toast({ title: "Prompts imported", description: `${imported.length} ${imported.length === 1 ? "prompt was" : "prompts were"} added or updated.` });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "The file could not be read.",
+        variant: "destructive",
+      });
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = "";
+    }
+  };
+
+  return (
+    <Card className="w-full max-w-md">
+      <CardHeader>
+        <CardTitle>Prompt Library</CardTitle>
+        <CardDescription>
+          Prompts you reuse, opened from the book icon next to the message box. Write {"{{name}}"} where a value should be filled in.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {templates.length > 0 && (
+          <ul className="space-y-2">
+            {templates.map(template => (
+              <li key={template.id} className="flex items-center gap-2 rounded-md border border-border px-3 py-2">
+                <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />
+                <span className="min-w-0 flex-1">
+                  <span className="block truncate text-sm">{template.name}</span>
+                  <span className="block truncate text-xs text-muted-foreground">
+                    {template.category || "Uncategorized"} · {template.variables.length}{" "}
+                    {template.variables.length === 1 ? "variable" : "variables"}
+                  </span>
+                </span>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setDraft(template)} aria-label={`Edit ${template.name}`}>
+                  <Pencil className="h-3.5 w-3.5" />
+                </Button>
+                <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => remove(template.id)} aria-label={`Remove ${template.name}`}>
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <Button variant="outline" className="w-full" onClick={() => setDraft(createTemplate())}>
+          <Plus className="h-4 w-4 mr-2" />
+          Add prompt
+        </Button>
+
+        <div className="flex gap-2">
+          <Button variant="ghost" size="sm" className="flex-1" onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <Button variant="ghost" size="sm" className="flex-1" onClick={handleExport} disabled={templates.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={(e) => handleImport(e.target.files?.[0])}
+          />
+        </div>
+      </CardContent>
+
+      <Dialog open={draft !== null} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{draft && templates.some(item => item.id === draft.id) ? "Edit Prompt" : "New Prompt"}</DialogTitle>
+            <DialogDescription>Each {"{{name}}"} in the prompt becomes a field to fill in before it is used.</DialogDescription>
+          </DialogHeader>
+
+          {draft && (
+            <div className="space-y-4">
+              <div className="flex gap-2">
+                <div className="flex-1 space-y-2">
+                  <Label htmlFor="template_name">Name</Label>
+                  <Input id="template_name" value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} />
+                </div>
+                <div className="w-[140px] space-y-2">
+                  <Label htmlFor="template_category">Category</Label>
+                  <Input
+                    id="template_category"
+                    value={draft.category}
+                    onChange={(e) => updateDraft({ category: e.target.value })}
+                    list="template_categories"
+                  />
+                  <datalist id="template_categories">
+                    {getCategories(templates).map(category => (
+                      <option key={category} value={category} />
+                    ))}
+                  </datalist>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="template_body">Prompt</Label>
+                <Textarea
+                  id="template_body"
+                  value={draft.body}
+                  onChange={(e) => updateDraft({ body: e.target.value })}
+                  placeholder={"Review this {{language}} code:\n\n{{code}}"}
+                  className="min-h-[140px] font-mono text-xs"
+                />
+              </div>
+
+              {draft.variables.map(variable => (
+                <div key={variable.name} className="space-y-2 rounded-md border border-border p-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-mono text-sm">{variable.name}</span>
+                    <Select
+                      value={variable.type}
+                      onValueChange={(type) => updateVariable(variable.name, { type: type as TemplateVariableType })}
+                    >
+                      <SelectTrigger className="h-8 w-[120px]" aria-label={`${variable.name} type`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {TEMPLATE_VARIABLE_TYPES.map(option => (
+                          <SelectItem key={option.value} value={option.value}>
+                            {option.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {variable.type === "select" && (
+                    <Input
+                      value={variable.options?.join(",") ?? ""}
+                      // Kept as typed so commas and spaces survive; tidied up on save
+                      onChange={(e) => updateVariable(variable.name, { options: e.target.value.split(",") })}
+                      placeholder="Choices, separated by commas"
+                      className="h-8"
+                      aria-label={`${variable.name} choices`}
+                    />
+                  )}
+                  <Input
+                    type={variable.type === "number" ? "number" : "text"}
+                    value={variable.defaultValue}
+                    onChange={(e) => updateVariable(variable.name, { defaultValue: e.target.value })}
+                    placeholder="Default value"
+                    className="h-8"
+                    aria-label={`${variable.name} default`}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setDraft(null)}>
+              Cancel
+            </Button>
+            <Button onClick={save} disabled={!draft?.name.trim() || !draft.body.trim()}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
@@ -0,0 +1,54 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { getProvider, PROVIDERS, type ProviderId, type ProviderSettings } from "@/lib/providers";
+
+interface ProviderFieldsProps {
+  /** Prefix for element ids so several forms can share a page */
+  idPrefix: string;
+  value: ProviderSettings;
+  onChange: (value: ProviderSettings) => void;
+}
+
+export const ProviderFields = ({ idPrefix, value, onChange }: ProviderFieldsProps) => {
+  const provider = getProvider(value.providerId);
+
+  return (
+    <>
+      <div className="space-y-2">
+        <Label htmlFor={`${idPrefix}Provider`}>Provider</Label>
+        <Select
+          value={value.providerId}
+          onValueChange={(providerId) => onChange({ providerId: providerId as ProviderId })}
+        >
+          <SelectTrigger id={`${idPrefix}Provider`}>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PROVIDERS.map(option => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {provider.capabilities.customBaseUrl && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}BaseUrl`}>Base URL</Label>
+          <Input
+            id={`${idPrefix}BaseUrl`}
+            type="url"
+            value={value.baseUrl ?? ""}
+            onChange={(e) => onChange({ ...value, baseUrl: e.target.value })}
+            placeholder={provider.defaultBaseUrl}
+          />
+          <p className="text-xs text-muted-foreground">
+            The server's OpenAI-style API root, e.g. vLLM, LM Studio or Ollama's /v1.
+          </p>
+        </div>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,67 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { useSettings } from "@/hooks/use-settings";
+import { shortModelName } from "@/lib/model-filters";
+import { RefreshCw } from "lucide-react";
+
+export interface RegenerateOptions {
+  model?: string;
+  temperature?: number;
+}
+
+interface RegenerateMenuProps {
+  onRegenerate: (options?: RegenerateOptions) => void;
+}
+
+const TEMPERATURE_OPTIONS = [0.2, 0.7, 1, 1.3];
+
+export const RegenerateMenu = ({ onRegenerate }: RegenerateMenuProps) => {
+  const [settings] = useSettings();
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs">
+          <RefreshCw className="h-3 w-3 mr-1" />
+          Regenerate
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuItem onSelect={() => onRegenerate()}>Regenerate</DropdownMenuItem>
+        <DropdownMenuSeparator />
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>With model</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {settings.favoriteModels.length === 0 && (
+              <DropdownMenuItem disabled>Star models in the picker to list them here</DropdownMenuItem>
+            )}
+            {settings.favoriteModels.map(model => (
+              <DropdownMenuItem key={model} onSelect={() => onRegenerate({ model })}>
+                {shortModelName(model)}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+        <DropdownMenuSub>
+          <DropdownMenuSubTrigger>With temperature</DropdownMenuSubTrigger>
+          <DropdownMenuSubContent>
+            {TEMPERATURE_OPTIONS.map(temperature => (
+              <DropdownMenuItem key={temperature} onSelect={() => onRegenerate({ temperature })}>
+                {temperature}
+              </DropdownMenuItem>
+            ))}
+          </DropdownMenuSubContent>
+        </DropdownMenuSub>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+};
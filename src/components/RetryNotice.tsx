@@ -0,0 +1,44 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import type { RetryState } from "@/lib/retry";
+import { RotateCw, X } from "lucide-react";
+
+interface RetryNoticeProps {
+  retry: RetryState;
+  onRetryNow?: () => void;
+  onCancel?: () => void;
+}
+
+const secondsUntil = (time: number) => Math.max(0, Math.ceil((time - Date.now()) / 1000));
+
+export const RetryNotice = ({ retry, onRetryNow, onCancel }: RetryNoticeProps) => {
+  const [secondsLeft, setSecondsLeft] = useState(() => secondsUntil(retry.retryAt));
+
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(retry.retryAt));
+    const interval = setInterval(() => setSecondsLeft(secondsUntil(retry.retryAt)), 250);
+    return () => clearInterval(interval);
+  }, [retry.retryAt]);
+
+  return (
+    <div className="space-y-2 text-sm" role="status">
+      <p>
+        {retry.reason}. Retrying in {secondsLeft}s
+        <span className="opacity-60">
+          {" "}
+          (attempt {retry.attempt} of {retry.maxAttempts})
+        </span>
+      </p>
+      <div className="flex gap-2">
+        <Button variant="secondary" size="sm" className="h-7 px-2 text-xs" onClick={onRetryNow}>
+          <RotateCw className="h-3 w-3 mr-1" />
+          Retry now
+        </Button>
+        <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={onCancel}>
+          <X className="h-3 w-3 mr-1" />
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
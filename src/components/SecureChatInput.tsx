@@ -1,29 +1,22 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Send } from "lucide-react";
+import { PromptLibraryDialog } from "./PromptLibraryDialog";
+import { MAX_MESSAGE_LENGTH, sanitizeInput } from "@/lib/message-input";
+import { Send, Square } from "lucide-react";
 
 interface SecureChatInputProps {
   onSendMessage: (message: string) => void;
+  onStop?: () => void;
   isLoading: boolean;
 }
 
-const MAX_MESSAGE_LENGTH = 4000;
 const RATE_LIMIT_DELAY = 1000; // 1 second between messages
 
-export const SecureChatInput = ({ onSendMessage, isLoading }: SecureChatInputProps) => {
+export const SecureChatInput = ({ onSendMessage, onStop, isLoading }: SecureChatInputProps) => {
   const [input, setInput] = useState("");
   const [lastMessageTime, setLastMessageTime] = useState(0);
 
-  const sanitizeInput = (text: string): string => {
-    // Remove potential script tags and other dangerous content
-    return text
-      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-      .replace(/javascript:/gi, '')
-      .replace(/on\w+="[^"]*"/gi, '')
-      .trim();
-  };
-
   const validateInput = (text: string): { isValid: boolean; error?: string } => {
     if (!text.trim()) {
       return { isValid: false, error: "Message cannot be empty" };
@@ -79,6 +72,7 @@ export const SecureChatInput = ({ onSendMessage, isLoading }: SecureChatInputPro
 
   return (
     <form onSubmit={handleSubmit} className="flex gap-2 p-4 bg-chat-input border-t border-border">
+      <PromptLibraryDialog onInsert={(text) => setInput(text.slice(0, MAX_MESSAGE_LENGTH))} disabled={isLoading} />
       <div className="flex-1 relative">
         <Textarea
           value={input}
@@ -92,14 +86,26 @@ export const SecureChatInput = ({ onSendMessage, isLoading }: SecureChatInputPro
           {input.length}/{MAX_MESSAGE_LENGTH}
         </div>
       </div>
-      <Button
-        type="submit"
-        size="icon"
-        disabled={!input.trim() || isLoading || input.length > MAX_MESSAGE_LENGTH}
-        className="bg-primary hover:bg-primary/90 text-primary-foreground"
-      >
-        <Send className="h-4 w-4" />
-      </Button>
+      {isLoading && onStop ? (
+        <Button
+          type="button"
+          size="icon"
+          variant="destructive"
+          onClick={onStop}
+          aria-label="Stop generating"
+        >
+          <Square className="h-4 w-4" />
+        </Button>
+      ) : (
+        <Button
+          type="submit"
+          size="icon"
+          disabled={!input.trim() || isLoading || input.length > MAX_MESSAGE_LENGTH}
+          className="bg-primary hover:bg-primary/90 text-primary-foreground"
+        >
+          <Send className="h-4 w-4" />
+        </Button>
+      )}
     </form>
   );
 };
\ No newline at end of file
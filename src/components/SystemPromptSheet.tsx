@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Sheet, SheetContent, SheetDescription, SheetFooter, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import type { Persona } from "@/lib/personas";
+import { assembleSystemPrompt, hasCustomInstructions, type CustomInstructions } from "@/lib/prompt";
+import { ScrollText } from "lucide-react";
+
+interface SystemPromptSheetProps {
+  systemPrompt?: string;
+  /** Persona the chat was started with, if it still exists */
+  persona?: Persona;
+  onChange: (systemPrompt: string) => void;
+  customInstructions: CustomInstructions;
+  ignoreCustomInstructions: boolean;
+  onIgnoreCustomInstructionsChange: (ignore: boolean) => void;
+}
+
+export const SystemPromptSheet = ({
+  systemPrompt = "",
+  persona,
+  onChange,
+  customInstructions,
+  ignoreCustomInstructions,
+  onIgnoreCustomInstructionsChange,
+}: SystemPromptSheetProps) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState(systemPrompt);
+
+  useEffect(() => {
+    if (open) setDraft(systemPrompt);
+  }, [open, systemPrompt]);
+
+  const hasInstructions = hasCustomInstructions(customInstructions);
+  const preview = assembleSystemPrompt(draft, ignoreCustomInstructions ? undefined : customInstructions);
+
+  const save = () => {
+    onChange(draft.trim());
+    setOpen(false);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground hover:text-foreground">
+          <ScrollText className="h-4 w-4 mr-2" />
+          <span className="max-w-[8rem] truncate">{persona?.name ?? "System prompt"}</span>
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle>System Prompt</SheetTitle>
+          <SheetDescription>
+            {persona ? `Started with the ${persona.name} persona. ` : ""}
+            Instructions the model receives before every message in this chat.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="flex flex-1 flex-col gap-2">
+          <Label htmlFor="system_prompt">Instructions</Label>
+          <Textarea
+            id="system_prompt"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            placeholder="You are a helpful assistant..."
+            className="min-h-[160px] flex-1"
+          />
+        </div>
+
+        <div className="space-y-1">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="include_instructions">Include custom instructions</Label>
+            <Switch
+              id="include_instructions"
+              checked={hasInstructions && !ignoreCustomInstructions}
+              disabled={!hasInstructions}
+              onCheckedChange={(checked) => onIgnoreCustomInstructionsChange(!checked)}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {hasInstructions ? "Adds your \"About me\" and \"How to respond\" notes to this chat." : "You have not written any yet."}{" "}
+            <Link to="/settings" className="underline underline-offset-2">
+              Edit in settings
+            </Link>
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>What the model receives</Label>
+          <pre className="max-h-60 overflow-y-auto whitespace-pre-wrap rounded-md bg-muted p-3 text-xs text-muted-foreground">
+            {preview || "No system prompt."}
+          </pre>
+        </div>
+
+        <SheetFooter className="gap-2">
+          {persona && draft !== persona.systemPrompt && (
+            <Button variant="ghost" onClick={() => setDraft(persona.systemPrompt)}>
+              Reset to persona
+            </Button>
+          )}
+          <Button onClick={save}>Save</Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+};
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
+import { MIN_PASSPHRASE_LENGTH, clearStoredApiKey, migrateLegacyApiKey, unlockApiKey } from "@/lib/api-key";
+import { Lock, ShieldAlert } from "lucide-react";
+
+interface UnlockScreenProps {
+  /** "migrate" asks for a new passphrase to encrypt a key saved by an older version */
+  mode: "unlock" | "migrate";
+}
+
+export const UnlockScreen = ({ mode }: UnlockScreenProps) => {
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+  const [rememberForSession, setRememberForSession] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const isMigrating = mode === "migrate";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (isMigrating) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        setError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters.`);
+        return;
+      }
+      if (passphrase !== confirmPassphrase) {
+        setError("Passphrases do not match.");
+        return;
+      }
+    }
+
+    setIsWorking(true);
+    try {
+      if (isMigrating) {
+        await migrateLegacyApiKey(passphrase, rememberForSession);
+      } else if (!(await unlockApiKey(passphrase, rememberForSession))) {
+        setError("Incorrect passphrase.");
+        setPassphrase("");
+      }
+    } catch {
+      // A malformed legacy key or unavailable storage or crypto
+      setError(isMigrating ? "Could not encrypt your saved key. Please try again." : "Could not unlock your key.");
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen bg-background p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="flex justify-center mb-4">
+            {isMigrating ? <ShieldAlert className="h-12 w-12 text-primary" /> : <Lock className="h-12 w-12 text-primary" />}
+          </div>
+          <CardTitle>{isMigrating ? "Protect Your API Key" : "Unlock DeepSeek AI Chat"}</CardTitle>
+          <CardDescription>
+            {isMigrating
+              ? "Your key was saved by an older version without real encryption. Choose a passphrase to encrypt it."
+              : "Enter your passphrase to decrypt your API key."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {error && (
+              <Alert variant="destructive">
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="unlockPassphrase">Passphrase</Label>
+              <Input
+                id="unlockPassphrase"
+                type="password"
+                autoFocus
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                autoComplete={isMigrating ? "new-password" : "current-password"}
+              />
+              {isMigrating && (
+                <Input
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  placeholder="Confirm passphrase"
+                  aria-label="Confirm passphrase"
+                  autoComplete="new-password"
+                />
+              )}
+            </div>
+
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="unlockRememberForSession"
+                checked={rememberForSession}
+                onCheckedChange={(checked) => setRememberForSession(checked === true)}
+              />
+              <Label htmlFor="unlockRememberForSession" className="font-normal">
+                Stay unlocked until this tab is closed
+              </Label>
+            </div>
+
+            <Button type="submit" className="w-full" disabled={!passphrase || isWorking}>
+              {isWorking ? "Please wait..." : isMigrating ? "Encrypt Key" : "Unlock"}
+            </Button>
+          </form>
+
+          {!isMigrating && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="link" size="sm" className="mt-2 w-full text-muted-foreground">
+                  Forgot passphrase?
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Remove stored API key?</AlertDialogTitle>
+                  <AlertDialogDescription>
+                    The key cannot be recovered without its passphrase. Removing it lets you enter a key again; your
+                    conversations are kept.
+                  </AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={clearStoredApiKey}>Remove Key</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,40 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+
+interface VariantSwitcherProps {
+  /** Zero-based index of the variant being shown */
+  index: number;
+  count: number;
+  onSelect: (index: number) => void;
+  disabled?: boolean;
+}
+
+export const VariantSwitcher = ({ index, count, onSelect, disabled }: VariantSwitcherProps) => {
+  return (
+    <div className="flex items-center gap-0.5">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-5 w-5"
+        disabled={disabled || index === 0}
+        onClick={() => onSelect(index - 1)}
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="h-3 w-3" />
+      </Button>
+      <span className="tabular-nums opacity-60">
+        {index + 1} / {count}
+      </span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-5 w-5"
+        disabled={disabled || index === count - 1}
+        onClick={() => onSelect(index + 1)}
+        aria-label="Next version"
+      >
+        <ChevronRight className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+};
@@ -0,0 +1,11 @@
+import { useSyncExternalStore } from "react";
+import { getApiKeyState, getProfileConnection, subscribeToApiKey } from "@/lib/api-key";
+
+export function useApiKey() {
+  return useSyncExternalStore(subscribeToApiKey, getApiKeyState);
+}
+
+/** Connection for the given profile, falling back to the active one */
+export function useProviderConnection(profileId?: string) {
+  return getProfileConnection(useApiKey(), profileId);
+}
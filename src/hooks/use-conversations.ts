@@ -0,0 +1,37 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { deleteConversation, listConversations, updateConversation } from "@/lib/conversation-store";
+
+export const CONVERSATIONS_QUERY_KEY = ["conversations"];
+
+export function useConversations() {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: CONVERSATIONS_QUERY_KEY });
+
+  const query = useQuery({
+    queryKey: CONVERSATIONS_QUERY_KEY,
+    queryFn: listConversations,
+  });
+
+  const renameConversation = useMutation({
+    mutationFn: ({ id, title }: { id: string; title: string }) => updateConversation(id, { title }),
+    onSuccess: invalidate,
+  });
+
+  const setPinned = useMutation({
+    mutationFn: ({ id, pinned }: { id: string; pinned: boolean }) => updateConversation(id, { pinned }),
+    onSuccess: invalidate,
+  });
+
+  const removeConversation = useMutation({
+    mutationFn: (id: string) => deleteConversation(id),
+    onSuccess: invalidate,
+  });
+
+  return {
+    conversations: query.data ?? [],
+    isLoading: query.isLoading,
+    renameConversation: renameConversation.mutateAsync,
+    setPinned: setPinned.mutateAsync,
+    removeConversation: removeConversation.mutateAsync,
+  };
+}
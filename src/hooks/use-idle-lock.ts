@@ -0,0 +1,72 @@
+import { useCallback, useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { lockApiKey } from "@/lib/api-key";
+import { useSettings } from "@/hooks/use-settings";
+
+const ACTIVITY_EVENTS = ["pointerdown", "pointermove", "keydown", "wheel", "touchstart"] as const;
+const MINUTE = 60 * 1000;
+
+/**
+ * Locks the app, dropping the decrypted key and any cached conversation
+ * data. Unmounting the gated UI clears what was on screen.
+ */
+export function useLockApp() {
+  const queryClient = useQueryClient();
+
+  return useCallback(() => {
+    lockApiKey();
+    queryClient.clear();
+  }, [queryClient]);
+}
+
+/** Locks the app after inactivity or after the tab stays hidden too long */
+export function useIdleLock(enabled: boolean) {
+  const [{ autoLockMinutes, lockWhenHiddenMinutes }] = useSettings();
+  const lockApp = useLockApp();
+
+  useEffect(() => {
+    if (!enabled || !autoLockMinutes) return;
+
+    let timeout: ReturnType<typeof setTimeout>;
+    const resetTimer = () => {
+      clearTimeout(timeout);
+      timeout = setTimeout(lockApp, autoLockMinutes * MINUTE);
+    };
+
+    resetTimer();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, resetTimer, { passive: true }));
+    return () => {
+      clearTimeout(timeout);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, resetTimer));
+    };
+  }, [enabled, autoLockMinutes, lockApp]);
+
+  useEffect(() => {
+    if (!enabled || !lockWhenHiddenMinutes) return;
+
+    let hiddenAt: number | null = null;
+    let timeout: ReturnType<typeof setTimeout>;
+
+    // Background tabs throttle timers, so the elapsed time is also checked
+    // when the tab becomes visible again
+    const handleVisibilityChange = () => {
+      if (document.hidden) {
+        hiddenAt = Date.now();
+        timeout = setTimeout(lockApp, lockWhenHiddenMinutes * MINUTE);
+        return;
+      }
+
+      clearTimeout(timeout);
+      if (hiddenAt !== null && Date.now() - hiddenAt >= lockWhenHiddenMinutes * MINUTE) {
+        lockApp();
+      }
+      hiddenAt = null;
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => {
+      clearTimeout(timeout);
+      document.removeEventListener("visibilitychange", handleVisibilityChange);
+    };
+  }, [enabled, lockWhenHiddenMinutes, lockApp]);
+}
@@ -0,0 +1,43 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { deleteMemory, listMemories, saveMemory } from "@/lib/memory-store";
+import { createId } from "@/lib/utils";
+import type { Memory } from "@/types/memory";
+
+export const MEMORIES_QUERY_KEY = ["memories"];
+
+export function useMemories() {
+  const queryClient = useQueryClient();
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: MEMORIES_QUERY_KEY });
+
+  const query = useQuery({
+    queryKey: MEMORIES_QUERY_KEY,
+    queryFn: listMemories,
+  });
+
+  const addMemory = useMutation({
+    mutationFn: ({ content, conversationId }: { content: string; conversationId?: string }) => {
+      const now = new Date();
+      return saveMemory({ id: createId(), content, createdAt: now, updatedAt: now, conversationId });
+    },
+    onSuccess: invalidate,
+  });
+
+  const editMemory = useMutation({
+    mutationFn: ({ memory, content }: { memory: Memory; content: string }) =>
+      saveMemory({ ...memory, content, updatedAt: new Date() }),
+    onSuccess: invalidate,
+  });
+
+  const removeMemory = useMutation({
+    mutationFn: (id: string) => deleteMemory(id),
+    onSuccess: invalidate,
+  });
+
+  return {
+    memories: query.data ?? [],
+    isLoading: query.isLoading,
+    addMemory: addMemory.mutateAsync,
+    editMemory: editMemory.mutateAsync,
+    removeMemory: removeMemory.mutateAsync,
+  };
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { fetchModels, type ProviderConnection } from "@/lib/providers";
+
+const MODELS_STALE_TIME = 60 * 60 * 1000;
+
+export function useModels(connection: ProviderConnection | null) {
+  return useQuery({
+    // Keys are left out of the query key so they never end up in devtools
+    queryKey: ["models", connection?.providerId, connection?.baseUrl],
+    queryFn: () => fetchModels(connection!),
+    enabled: !!connection,
+    staleTime: MODELS_STALE_TIME,
+  });
+}
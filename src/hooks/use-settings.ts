@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from "react";
+import { getSettings, subscribeToSettings, updateSettings } from "@/lib/settings";
+
+export function useSettings() {
+  const settings = useSyncExternalStore(subscribeToSettings, getSettings);
+  return [settings, updateSettings] as const;
+}
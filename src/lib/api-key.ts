@@ -0,0 +1,283 @@
+import { decryptSecret, encryptSecret, type EncryptedSecret } from "@/lib/crypto";
+import { DEFAULT_PROVIDER_SETTINGS, toConnection, type ProviderConnection, type ProviderSettings } from "@/lib/providers";
+
+/**
+ * API keys are kept as named profiles, each encrypted with the same user
+ * passphrase in localStorage, and only held in plain text in memory once
+ * unlocked. "Remember for this session" additionally keeps the decrypted
+ * keys in sessionStorage so reloads in the same tab do not ask again.
+ */
+
+/** Older builds stored a single key here, base64-encoded only */
+const LEGACY_STORAGE_KEY = "openrouter_api_key";
+/** Builds before profiles stored one encrypted key here */
+const ENCRYPTED_STORAGE_KEY = "openrouter_api_key_encrypted";
+const PROFILES_STORAGE_KEY = "api_key_profiles";
+const SESSION_STORAGE_KEY = "api_key_profiles_session";
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export type ApiKeyStatus = "missing" | "legacy" | "locked" | "unlocked";
+
+export interface ApiKeyProfile {
+  id: string;
+  label: string;
+  provider: ProviderSettings;
+}
+
+interface StoredProfile extends ApiKeyProfile {
+  secret: EncryptedSecret;
+}
+
+interface StoredVault {
+  activeProfileId: string;
+  profiles: StoredProfile[];
+}
+
+export interface ApiKeyState {
+  status: ApiKeyStatus;
+  profiles: ApiKeyProfile[];
+  activeProfileId: string | null;
+  /** Decrypted keys by profile id, empty unless unlocked */
+  apiKeys: Record<string, string>;
+  /** Key of the active profile */
+  apiKey: string | null;
+}
+
+/** Profiles saved before providers existed all talk to OpenRouter */
+const withProvider = <T extends Omit<ApiKeyProfile, "provider">>(profile: T): T & ApiKeyProfile => ({
+  provider: DEFAULT_PROVIDER_SETTINGS,
+  ...profile,
+});
+
+const listeners = new Set<() => void>();
+
+const readVault = (): StoredVault | null => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (stored) {
+      const vault: StoredVault = JSON.parse(stored);
+      return { ...vault, profiles: vault.profiles.map(withProvider) };
+    }
+
+    // Move a key saved before profiles existed into a first profile
+    const single = localStorage.getItem(ENCRYPTED_STORAGE_KEY);
+    if (single) {
+      const vault: StoredVault = {
+        activeProfileId: "default",
+        profiles: [withProvider({ id: "default", label: "Default", secret: JSON.parse(single) })],
+      };
+      writeVault(vault);
+      localStorage.removeItem(ENCRYPTED_STORAGE_KEY);
+      return vault;
+    }
+  } catch {
+    // Fall through to treating the vault as missing
+  }
+  return null;
+};
+
+const writeVault = (vault: StoredVault) => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(vault));
+};
+
+const buildState = (status: ApiKeyStatus, vault: StoredVault | null, apiKeys: Record<string, string> = {}): ApiKeyState => {
+  const activeProfileId = vault?.activeProfileId ?? null;
+  return {
+    status,
+    profiles: vault?.profiles.map(({ id, label, provider }) => ({ id, label, provider })) ?? [],
+    activeProfileId,
+    apiKeys,
+    apiKey: activeProfileId ? apiKeys[activeProfileId] ?? null : null,
+  };
+};
+
+const readSessionKeys = (): Record<string, string> | null => {
+  try {
+    const stored = sessionStorage.getItem(SESSION_STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+const readInitialState = (): ApiKeyState => {
+  const vault = readVault();
+  if (vault) {
+    const sessionKeys = readSessionKeys();
+    return sessionKeys ? buildState("unlocked", vault, sessionKeys) : buildState("locked", vault);
+  }
+  if (localStorage.getItem(LEGACY_STORAGE_KEY)) {
+    return buildState("legacy", null);
+  }
+  return buildState("missing", null);
+};
+
+let state: ApiKeyState = readInitialState();
+
+const setState = (next: ApiKeyState) => {
+  state = next;
+  listeners.forEach(listener => listener());
+};
+
+const isRememberedForSession = () => sessionStorage.getItem(SESSION_STORAGE_KEY) !== null;
+
+const unlockWith = (vault: StoredVault, apiKeys: Record<string, string>, rememberForSession: boolean) => {
+  if (rememberForSession) {
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(apiKeys));
+  } else {
+    sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  }
+  setState(buildState("unlocked", vault, apiKeys));
+};
+
+const decryptVault = async (vault: StoredVault, passphrase: string): Promise<Record<string, string>> => {
+  const entries = await Promise.all(
+    vault.profiles.map(async profile => [profile.id, await decryptSecret(profile.secret, passphrase)] as const)
+  );
+  return Object.fromEntries(entries);
+};
+
+export const getApiKeyState = (): ApiKeyState => state;
+
+/**
+ * Resolves the profile a request should use: the given one when it still
+ * exists, otherwise the active one. Null while locked.
+ */
+export const getProfileConnection = (keyState: ApiKeyState, profileId?: string): ProviderConnection | null => {
+  const profile =
+    keyState.profiles.find(candidate => candidate.id === profileId) ??
+    keyState.profiles.find(candidate => candidate.id === keyState.activeProfileId);
+  if (!profile || !(profile.id in keyState.apiKeys)) return null;
+  return toConnection(profile.provider, keyState.apiKeys[profile.id]);
+};
+
+export const subscribeToApiKey = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/** Creates the first profile, replacing anything stored before */
+export const saveApiKey = async (
+  label: string,
+  provider: ProviderSettings,
+  apiKey: string,
+  passphrase: string,
+  rememberForSession: boolean
+) => {
+  const id = crypto.randomUUID();
+  const vault: StoredVault = {
+    activeProfileId: id,
+    profiles: [{ id, label, provider, secret: await encryptSecret(apiKey, passphrase) }],
+  };
+  writeVault(vault);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  unlockWith(vault, { [id]: apiKey }, rememberForSession);
+};
+
+/** Resolves false when the passphrase does not decrypt the stored keys */
+export const unlockApiKey = async (passphrase: string, rememberForSession: boolean): Promise<boolean> => {
+  const vault = readVault();
+  if (!vault) return false;
+
+  try {
+    unlockWith(vault, await decryptVault(vault, passphrase), rememberForSession);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Re-encrypts a key saved by older builds in plain base64 */
+export const migrateLegacyApiKey = async (passphrase: string, rememberForSession: boolean) => {
+  const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!legacy) return;
+  await saveApiKey("Default", DEFAULT_PROVIDER_SETTINGS, atob(legacy), passphrase, rememberForSession);
+};
+
+/**
+ * Adds another key to the unlocked vault. The passphrase must match the
+ * one the existing keys use; resolves false when it does not.
+ */
+export const addApiKeyProfile = async (
+  label: string,
+  provider: ProviderSettings,
+  apiKey: string,
+  passphrase: string
+): Promise<boolean> => {
+  const vault = readVault();
+  if (!vault || state.status !== "unlocked") return false;
+
+  try {
+    await decryptSecret(vault.profiles[0].secret, passphrase);
+  } catch {
+    return false;
+  }
+
+  const id = crypto.randomUUID();
+  const updated: StoredVault = {
+    ...vault,
+    profiles: [...vault.profiles, { id, label, provider, secret: await encryptSecret(apiKey, passphrase) }],
+  };
+  writeVault(updated);
+  unlockWith(updated, { ...state.apiKeys, [id]: apiKey }, isRememberedForSession());
+  return true;
+};
+
+export const renameApiKeyProfile = (id: string, label: string) => {
+  const vault = readVault();
+  if (!vault) return;
+
+  const updated = { ...vault, profiles: vault.profiles.map(profile => (profile.id === id ? { ...profile, label } : profile)) };
+  writeVault(updated);
+  setState(buildState(state.status, updated, state.apiKeys));
+};
+
+export const setActiveApiKeyProfile = (id: string) => {
+  const vault = readVault();
+  if (!vault?.profiles.some(profile => profile.id === id)) return;
+
+  const updated = { ...vault, activeProfileId: id };
+  writeVault(updated);
+  setState(buildState(state.status, updated, state.apiKeys));
+};
+
+/** Removes one key; removing the last one clears the vault entirely */
+export const removeApiKeyProfile = (id: string) => {
+  const vault = readVault();
+  if (!vault) return;
+
+  const profiles = vault.profiles.filter(profile => profile.id !== id);
+  if (profiles.length === 0) {
+    clearStoredApiKey();
+    return;
+  }
+
+  const updated: StoredVault = {
+    activeProfileId: vault.activeProfileId === id ? profiles[0].id : vault.activeProfileId,
+    profiles,
+  };
+  const { [id]: _removed, ...apiKeys } = state.apiKeys;
+  writeVault(updated);
+  if (isRememberedForSession()) {
+    sessionStorage.setItem(SESSION_STORAGE_KEY, JSON.stringify(apiKeys));
+  }
+  setState(buildState(state.status, updated, apiKeys));
+};
+
+/** Forgets the decrypted keys, including the copy remembered for this session */
+export const lockApiKey = () => {
+  if (state.status !== "unlocked") return;
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  setState(buildState("locked", readVault()));
+};
+
+export const clearStoredApiKey = () => {
+  localStorage.removeItem(PROFILES_STORAGE_KEY);
+  localStorage.removeItem(ENCRYPTED_STORAGE_KEY);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+  sessionStorage.removeItem(SESSION_STORAGE_KEY);
+  setState(buildState("missing", null));
+};
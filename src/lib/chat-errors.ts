@@ -0,0 +1,55 @@
+import { ProviderError } from "@/lib/providers";
+import type { ChatError, ChatErrorKind } from "@/types/chat";
+
+/**
+ * Turns request failures into a small set of reasons the UI can explain
+ * and suggest a fix for.
+ */
+
+export const CHAT_ERROR_TITLES: Record<ChatErrorKind, string> = {
+  auth: "Authentication failed",
+  "rate-limit": "Rate limited",
+  network: "Connection problem",
+  "content-filter": "Blocked by content filter",
+  "context-overflow": "Conversation too long",
+  server: "Service unavailable",
+  unknown: "Something went wrong",
+};
+
+const CHAT_ERROR_MESSAGES: Record<ChatErrorKind, string> = {
+  auth: "The API key was rejected. Check it in settings or switch to another key.",
+  "rate-limit": "The provider is limiting requests right now. Wait a moment or pick a fallback model.",
+  network: "The connection dropped before the reply finished. Check your network and try again.",
+  "content-filter": "The provider refused this request. Rephrasing the message may help.",
+  "context-overflow": "The conversation no longer fits in the model's context window. Edit the message, start a new chat or pick a model with a larger context.",
+  server: "The provider had a problem handling the request. Trying again usually works.",
+  unknown: "The reply could not be completed. Please try again.",
+};
+
+const CONTEXT_OVERFLOW_PATTERN = /context|too many tokens|maximum.*tokens|too long/i;
+const MODERATION_PATTERN = /moderat|flagged|content.?(policy|filter)|safety/i;
+
+const classifyProviderError = ({ status, code, serverMessage = "" }: ProviderError): ChatErrorKind => {
+  if (code === "content_filter") return "content-filter";
+  if (code === "truncated") return "network";
+  if (status === 401) return "auth";
+  if (status === 403) return MODERATION_PATTERN.test(serverMessage) ? "content-filter" : "auth";
+  if (status === 429) return "rate-limit";
+  if (status === 413 || ((status === 400 || status === undefined) && CONTEXT_OVERFLOW_PATTERN.test(serverMessage))) {
+    return "context-overflow";
+  }
+  if (status !== undefined && status >= 500) return "server";
+  return "unknown";
+};
+
+const getErrorKind = (error: unknown): ChatErrorKind => {
+  if (error instanceof ProviderError) return classifyProviderError(error);
+  // fetch rejects with a TypeError when the network request itself fails
+  if (error instanceof TypeError) return "network";
+  return "unknown";
+};
+
+export const classifyError = (error: unknown): ChatError => {
+  const kind = getErrorKind(error);
+  return { kind, message: CHAT_ERROR_MESSAGES[kind] };
+};
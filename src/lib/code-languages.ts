@@ -0,0 +1,62 @@
+const LANGUAGE_EXTENSIONS: Record<string, string> = {
+  bash: "sh",
+  c: "c",
+  cpp: "cpp",
+  csharp: "cs",
+  cs: "cs",
+  css: "css",
+  dart: "dart",
+  diff: "diff",
+  dockerfile: "Dockerfile",
+  go: "go",
+  graphql: "graphql",
+  html: "html",
+  ini: "ini",
+  java: "java",
+  javascript: "js",
+  js: "js",
+  json: "json",
+  jsx: "jsx",
+  kotlin: "kt",
+  less: "less",
+  lua: "lua",
+  makefile: "Makefile",
+  markdown: "md",
+  md: "md",
+  objectivec: "m",
+  perl: "pl",
+  php: "php",
+  powershell: "ps1",
+  python: "py",
+  py: "py",
+  r: "r",
+  ruby: "rb",
+  rb: "rb",
+  rust: "rs",
+  rs: "rs",
+  scala: "scala",
+  scss: "scss",
+  sh: "sh",
+  shell: "sh",
+  sql: "sql",
+  swift: "swift",
+  toml: "toml",
+  ts: "ts",
+  tsx: "tsx",
+  typescript: "ts",
+  xml: "xml",
+  yaml: "yaml",
+  yml: "yml",
+  zsh: "sh",
+};
+
+/** Language named on a fenced block, read from its `language-*` class */
+export const getCodeLanguage = (className?: string): string | undefined =>
+  className?.split(" ").find(name => name.startsWith("language-"))?.slice("language-".length);
+
+/** File name for downloading a code block, e.g. "snippet.py" */
+export const getCodeFileName = (language?: string): string => {
+  const extension = (language && LANGUAGE_EXTENSIONS[language.toLowerCase()]) ?? "txt";
+  // Some tools are identified by file name rather than extension
+  return /^[A-Z]/.test(extension) ? extension : `snippet.${extension}`;
+};
@@ -0,0 +1,55 @@
+import { countMessageTokens } from "@/lib/tokens";
+import type { Message } from "@/types/chat";
+
+/**
+ * Deciding which messages to send when a conversation no longer fits in
+ * the model's context window.
+ */
+
+export type ContextStrategy = "drop-oldest" | "keep-pinned" | "summarize";
+
+export const CONTEXT_STRATEGIES: { value: ContextStrategy; label: string; description: string }[] = [
+  { value: "drop-oldest", label: "Drop oldest", description: "The oldest messages are left out first." },
+  { value: "keep-pinned", label: "Keep pinned", description: "Like drop oldest, but pinned messages are always sent." },
+  { value: "summarize", label: "Summarize", description: "Near the limit, earlier messages are condensed into a running summary you can view and edit." },
+];
+
+/** Used when the provider does not report a model's context length */
+export const DEFAULT_CONTEXT_LENGTH = 8192;
+
+/** Tokens left for the prompt once the reply has room, which gets at most half the window */
+export const getPromptBudget = (contextLength: number, maxTokens: number) =>
+  contextLength - Math.min(maxTokens, Math.floor(contextLength / 2));
+
+export const countHistoryTokens = (history: Message[]) =>
+  history.reduce((total, message) => total + countMessageTokens(message), 0);
+
+export interface ContextFit {
+  kept: Message[];
+  dropped: Message[];
+  /** Tokens used by the kept messages */
+  tokens: number;
+}
+
+/**
+ * Leaves out the oldest messages until the rest fit in `budget`. The last
+ * message is always kept, and so are pinned ones when `keepPinned` is set,
+ * even if that means going over.
+ */
+export const fitToContext = (history: Message[], budget: number, keepPinned: boolean): ContextFit => {
+  let tokens = countHistoryTokens(history);
+  const droppedIds = new Set<string>();
+
+  for (const message of history.slice(0, -1)) {
+    if (tokens <= budget) break;
+    if (keepPinned && message.pinned) continue;
+    droppedIds.add(message.id);
+    tokens -= countMessageTokens(message);
+  }
+
+  return {
+    kept: history.filter(message => !droppedIds.has(message.id)),
+    dropped: history.filter(message => droppedIds.has(message.id)),
+    tokens,
+  };
+};
@@ -0,0 +1,38 @@
+import { isToday, isYesterday, startOfDay, subDays } from "date-fns";
+import type { Conversation } from "@/types/chat";
+
+export interface ConversationGroup {
+  label: string;
+  conversations: Conversation[];
+}
+
+const getDateLabel = (date: Date, now: Date): string => {
+  if (isToday(date)) return "Today";
+  if (isYesterday(date)) return "Yesterday";
+  if (date >= startOfDay(subDays(now, 7))) return "Previous 7 days";
+  return "Older";
+};
+
+/**
+ * Buckets conversations for the sidebar. Pinned chats are listed first in
+ * their own group; the rest are grouped by when they were last active.
+ * Expects `conversations` sorted newest first, and keeps that order.
+ */
+export const groupConversations = (conversations: Conversation[], now = new Date()): ConversationGroup[] => {
+  const groups = new Map<string, Conversation[]>([
+    ["Pinned", []],
+    ["Today", []],
+    ["Yesterday", []],
+    ["Previous 7 days", []],
+    ["Older", []],
+  ]);
+
+  conversations.forEach(conversation => {
+    const label = conversation.pinned ? "Pinned" : getDateLabel(conversation.updatedAt, now);
+    groups.get(label)!.push(conversation);
+  });
+
+  return Array.from(groups, ([label, conversations]) => ({ label, conversations })).filter(
+    group => group.conversations.length > 0
+  );
+};
@@ -0,0 +1,128 @@
+import { STORES, requestToPromise, withTransaction } from "@/lib/db";
+import type { Conversation, Message } from "@/types/chat";
+
+const LAST_CONVERSATION_KEY = "lastConversationId";
+const TITLE_MAX_LENGTH = 50;
+export const DEFAULT_CONVERSATION_TITLE = "New Chat";
+
+/** Deleted in this tab; a late save must not bring them back */
+const deletedConversationIds = new Set<string>();
+
+/**
+ * Messages are stored flat with a pointer back to their conversation and
+ * their position in it, since several can share the same timestamp.
+ */
+interface StoredMessage extends Message {
+  conversationId: string;
+  position: number;
+}
+
+const toStoredMessage = (
+  conversationId: string,
+  // Pending retries only make sense while the page that started them is open
+  { isStreaming, retry: _retry, ...message }: Message,
+  position: number
+): StoredMessage => ({
+  ...message,
+  // A reply still streaming when the page goes away is restored as stopped
+  isStopped: message.isStopped || isStreaming || undefined,
+  conversationId,
+  position,
+});
+
+const fromStoredMessage = ({ conversationId, position, ...message }: StoredMessage): Message => message;
+
+export const deriveTitle = (messages: Message[]): string => {
+  const firstUserMessage = messages.find(msg => msg.isUser);
+  if (!firstUserMessage) return DEFAULT_CONVERSATION_TITLE;
+
+  const text = firstUserMessage.content.replace(/\s+/g, " ").trim();
+  return text.length > TITLE_MAX_LENGTH ? `${text.slice(0, TITLE_MAX_LENGTH - 1)}…` : text;
+};
+
+export const listConversations = (): Promise<Conversation[]> =>
+  withTransaction(STORES.conversations, "readonly", async (transaction) => {
+    const conversations = await requestToPromise<Conversation[]>(
+      transaction.objectStore(STORES.conversations).getAll()
+    );
+    return conversations.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  });
+
+export const getConversation = (id: string): Promise<Conversation | undefined> =>
+  withTransaction(STORES.conversations, "readonly", (transaction) =>
+    requestToPromise<Conversation | undefined>(transaction.objectStore(STORES.conversations).get(id))
+  );
+
+export const getMessages = (conversationId: string): Promise<Message[]> =>
+  withTransaction(STORES.messages, "readonly", async (transaction) => {
+    const stored = await requestToPromise<StoredMessage[]>(
+      transaction.objectStore(STORES.messages).index("conversationId").getAll(conversationId)
+    );
+    return stored.sort((a, b) => a.position - b.position).map(fromStoredMessage);
+  });
+
+/**
+ * Replaces the stored messages of a conversation with `messages`, creating
+ * the conversation record on first save. Fields changed elsewhere (title,
+ * pin) are read back inside the transaction so a save never reverts them.
+ */
+export const saveConversation = (
+  conversation: Conversation,
+  messages: Message[],
+  activeLeafId: string | null
+): Promise<void> => {
+  if (deletedConversationIds.has(conversation.id)) return Promise.resolve();
+
+  return withTransaction([STORES.conversations, STORES.messages], "readwrite", async (transaction) => {
+    const conversationStore = transaction.objectStore(STORES.conversations);
+    const messageStore = transaction.objectStore(STORES.messages);
+    const [existing, existingKeys] = await Promise.all([
+      requestToPromise<Conversation | undefined>(conversationStore.get(conversation.id)),
+      requestToPromise(messageStore.index("conversationId").getAllKeys(conversation.id)),
+    ]);
+    const keep = new Set(messages.map(msg => msg.id));
+
+    existingKeys.filter(key => !keep.has(key as string)).forEach(key => messageStore.delete(key));
+    messages.forEach((msg, index) => messageStore.put(toStoredMessage(conversation.id, msg, index)));
+
+    const base = existing ?? conversation;
+    conversationStore.put({
+      ...base,
+      title: base.title === DEFAULT_CONVERSATION_TITLE ? deriveTitle(messages) : base.title,
+      updatedAt: messages.length > 0 ? messages[messages.length - 1].timestamp : base.updatedAt,
+      activeLeafId: activeLeafId ?? undefined,
+    });
+  });
+};
+
+export const updateConversation = (
+  id: string,
+  changes: Partial<Omit<Conversation, "id" | "createdAt">>
+): Promise<void> =>
+  withTransaction(STORES.conversations, "readwrite", async (transaction) => {
+    const store = transaction.objectStore(STORES.conversations);
+    const existing = await requestToPromise<Conversation | undefined>(store.get(id));
+    if (existing) {
+      store.put({ ...existing, ...changes });
+    }
+  });
+
+export const deleteConversation = (id: string): Promise<void> => {
+  deletedConversationIds.add(id);
+  return withTransaction([STORES.conversations, STORES.messages], "readwrite", async (transaction) => {
+    const messageStore = transaction.objectStore(STORES.messages);
+    const keys = await requestToPromise(messageStore.index("conversationId").getAllKeys(id));
+    keys.forEach(key => messageStore.delete(key));
+    transaction.objectStore(STORES.conversations).delete(id);
+  });
+};
+
+export const getLastConversationId = (): Promise<string | undefined> =>
+  withTransaction(STORES.meta, "readonly", (transaction) =>
+    requestToPromise<string | undefined>(transaction.objectStore(STORES.meta).get(LAST_CONVERSATION_KEY))
+  );
+
+export const setLastConversationId = (id: string): Promise<void> =>
+  withTransaction(STORES.meta, "readwrite", (transaction) => {
+    transaction.objectStore(STORES.meta).put(id, LAST_CONVERSATION_KEY);
+  });
@@ -0,0 +1,62 @@
+/**
+ * Passphrase-based encryption for secrets kept in browser storage, using
+ * PBKDF2 to derive an AES-GCM key. Every encryption uses a fresh salt and
+ * IV, stored next to the ciphertext.
+ */
+
+const PBKDF2_ITERATIONS = 310_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedSecret {
+  version: 1;
+  iterations: number;
+  salt: string;
+  iv: string;
+  ciphertext: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number) => {
+  const baseKey = await crypto.subtle.importKey("raw", new TextEncoder().encode(passphrase), "PBKDF2", false, [
+    "deriveKey",
+  ]);
+
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    baseKey,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+export const encryptSecret = async (plaintext: string, passphrase: string): Promise<EncryptedSecret> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const ciphertext = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, key, new TextEncoder().encode(plaintext));
+
+  return {
+    version: 1,
+    iterations: PBKDF2_ITERATIONS,
+    salt: toBase64(salt),
+    iv: toBase64(iv),
+    ciphertext: toBase64(new Uint8Array(ciphertext)),
+  };
+};
+
+/** Rejects when the passphrase is wrong or the data was tampered with */
+export const decryptSecret = async (secret: EncryptedSecret, passphrase: string): Promise<string> => {
+  const key = await deriveKey(passphrase, fromBase64(secret.salt), secret.iterations);
+  const plaintext = await crypto.subtle.decrypt(
+    { name: "AES-GCM", iv: fromBase64(secret.iv) },
+    key,
+    fromBase64(secret.ciphertext)
+  );
+
+  return new TextDecoder().decode(plaintext);
+};
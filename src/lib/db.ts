@@ -0,0 +1,144 @@
+/**
+ * IndexedDB access for locally persisted chat data.
+ *
+ * Each entry in `upgrades` moves the database from the previous version to
+ * the next one. When the stored shape of a record changes, bump
+ * DB_VERSION and add an upgrade that rewrites existing records in place
+ * with `migrateRecords` so older data keeps loading after a deploy.
+ */
+
+const DB_NAME = "deepseek-chat";
+const DB_VERSION = 3;
+
+export const STORES = {
+  conversations: "conversations",
+  messages: "messages",
+  meta: "meta",
+  memories: "memories",
+} as const;
+
+type StoreName = (typeof STORES)[keyof typeof STORES];
+
+type Upgrade = (db: IDBDatabase, transaction: IDBTransaction) => void;
+
+/** Rewrites every record in a store during a version upgrade */
+const migrateRecords = <T>(transaction: IDBTransaction, storeName: StoreName, migrate: (record: T) => T) => {
+  const request = transaction.objectStore(storeName).openCursor();
+  request.onsuccess = () => {
+    const cursor = request.result;
+    if (!cursor) return;
+    cursor.update(migrate(cursor.value));
+    cursor.continue();
+  };
+};
+
+const upgrades: Record<number, Upgrade> = {
+  1: (db) => {
+    const conversations = db.createObjectStore(STORES.conversations, { keyPath: "id" });
+    conversations.createIndex("updatedAt", "updatedAt");
+
+    const messages = db.createObjectStore(STORES.messages, { keyPath: "id" });
+    messages.createIndex("conversationId", "conversationId");
+
+    db.createObjectStore(STORES.meta);
+  },
+  // Messages become a tree: link each one to the message before it and
+  // point every conversation at the end of its only branch
+  2: (db, transaction) => {
+    const messageStore = transaction.objectStore(STORES.messages);
+    const conversationStore = transaction.objectStore(STORES.conversations);
+    const request = messageStore.getAll();
+
+    request.onsuccess = () => {
+      const byConversation = new Map<string, { id: string; position: number }[]>();
+      request.result.forEach(message => {
+        const list = byConversation.get(message.conversationId) ?? [];
+        list.push(message);
+        byConversation.set(message.conversationId, list);
+      });
+
+      const parentIds = new Map<string, string | null>();
+      byConversation.forEach(list => {
+        list.sort((a, b) => a.position - b.position);
+        list.forEach((message, index) => parentIds.set(message.id, index > 0 ? list[index - 1].id : null));
+      });
+
+      migrateRecords<{ id: string }>(transaction, STORES.messages, message => ({
+        ...message,
+        parentId: parentIds.get(message.id) ?? null,
+      }));
+      migrateRecords<{ id: string }>(transaction, STORES.conversations, conversation => {
+        const list = byConversation.get(conversation.id);
+        return list?.length ? { ...conversation, activeLeafId: list[list.length - 1].id } : conversation;
+      });
+    };
+  },
+  // Facts remembered across conversations
+  3: (db) => {
+    const memories = db.createObjectStore(STORES.memories, { keyPath: "id" });
+    memories.createIndex("updatedAt", "updatedAt");
+  },
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        const transaction = request.transaction!;
+        for (let version = event.oldVersion + 1; version <= DB_VERSION; version++) {
+          upgrades[version]?.(db, transaction);
+        }
+      };
+
+      request.onsuccess = () => {
+        const db = request.result;
+        // Let a newer tab upgrade the schema instead of blocking it
+        db.onversionchange = () => {
+          db.close();
+          dbPromise = null;
+        };
+        resolve(db);
+      };
+
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs `work` inside a single transaction and resolves with its result once
+ * the transaction has committed.
+ */
+export const withTransaction = async <T>(
+  storeNames: StoreName | StoreName[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => Promise<T> | T
+): Promise<T> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeNames, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+  const result = await work(transaction);
+  await done;
+  return result;
+};
@@ -0,0 +1,63 @@
+/** Sampling parameters sent with every chat completion request */
+export interface GenerationParams {
+  temperature: number;
+  top_p: number;
+  max_tokens: number;
+  frequency_penalty: number;
+  presence_penalty: number;
+  stop: string[];
+  /** Fixed seed for reproducible sampling, or null to let the provider choose */
+  seed: number | null;
+}
+
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  temperature: 0.7,
+  top_p: 1,
+  max_tokens: 4096,
+  frequency_penalty: 0,
+  presence_penalty: 0,
+  stop: [],
+  seed: null,
+};
+
+export interface GenerationPreset {
+  name: string;
+  description: string;
+  params: Partial<GenerationParams>;
+}
+
+export const GENERATION_PRESETS: GenerationPreset[] = [
+  {
+    name: "Precise",
+    description: "Focused, repeatable answers for code and facts",
+    params: { temperature: 0.2, top_p: 0.9, frequency_penalty: 0, presence_penalty: 0 },
+  },
+  {
+    name: "Balanced",
+    description: "The default mix of accuracy and variety",
+    params: { temperature: 0.7, top_p: 1, frequency_penalty: 0, presence_penalty: 0 },
+  },
+  {
+    name: "Creative",
+    description: "More varied wording for brainstorming and writing",
+    params: { temperature: 1.1, top_p: 1, frequency_penalty: 0.3, presence_penalty: 0.4 },
+  },
+];
+
+export const applyPreset = (params: GenerationParams, preset: GenerationPreset): GenerationParams => ({
+  ...params,
+  ...preset.params,
+});
+
+/** Name of the preset whose values all match `params`, if any */
+export const findMatchingPreset = (params: GenerationParams): GenerationPreset | undefined =>
+  GENERATION_PRESETS.find(preset =>
+    Object.entries(preset.params).every(([key, value]) => params[key as keyof GenerationParams] === value)
+  );
+
+/** Request body fields for `params`, leaving out values the API should default */
+export const toRequestParams = ({ stop, seed, ...params }: GenerationParams) => ({
+  ...params,
+  ...(stop.length > 0 && { stop }),
+  ...(seed !== null && { seed }),
+});
@@ -0,0 +1,18 @@
+import { STORES, requestToPromise, withTransaction } from "@/lib/db";
+import type { Memory } from "@/types/memory";
+
+export const listMemories = (): Promise<Memory[]> =>
+  withTransaction(STORES.memories, "readonly", async (transaction) => {
+    const memories = await requestToPromise<Memory[]>(transaction.objectStore(STORES.memories).getAll());
+    return memories.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  });
+
+export const saveMemory = (memory: Memory): Promise<void> =>
+  withTransaction(STORES.memories, "readwrite", (transaction) => {
+    transaction.objectStore(STORES.memories).put(memory);
+  });
+
+export const deleteMemory = (id: string): Promise<void> =>
+  withTransaction(STORES.memories, "readwrite", (transaction) => {
+    transaction.objectStore(STORES.memories).delete(id);
+  });
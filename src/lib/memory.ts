@@ -0,0 +1,101 @@
+import { DEFAULT_GENERATION_PARAMS } from "@/lib/generation-params";
+import { fitToContext } from "@/lib/context-window";
+import { streamChatCompletion, type ProviderConnection } from "@/lib/providers";
+import type { Message } from "@/types/chat";
+import type { Memory } from "@/types/memory";
+
+/**
+ * Picking the remembered facts worth sending with a message, and asking
+ * the model which facts from a conversation are worth remembering.
+ */
+
+/** More than this and the memories start crowding out the conversation */
+export const MAX_MEMORIES_PER_PROMPT = 5;
+
+const STOP_WORDS = new Set(
+  ("about after again also and any are because been before but can could did does doing for from had has have " +
+    "her here him his how into its just like more most not now our out over she should some such than that the " +
+    "their them then there these they this those through too under until very was were what when where which " +
+    "while who why will with would you your")
+    .split(" ")
+);
+
+const toTerms = (text: string) =>
+  new Set(
+    (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [])
+      .filter(word => word.length > 2 && !STOP_WORDS.has(word))
+      // Close enough to stemming for "lists" to match "list"
+      .map(word => (word.length > 3 && word.endsWith("s") ? word.slice(0, -1) : word))
+  );
+
+/**
+ * Ranks memories by the words they share with `query`, giving more weight
+ * to words few memories use. Memories that share nothing are left out.
+ */
+export const selectMemories = (memories: Memory[], query: string, limit = MAX_MEMORIES_PER_PROMPT): Memory[] => {
+  const queryTerms = toTerms(query);
+  const memoryTerms = memories.map(memory => toTerms(memory.content));
+
+  const documentFrequency = new Map<string, number>();
+  memoryTerms.forEach(terms => terms.forEach(term => documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1)));
+
+  return memories
+    .map((memory, index) => {
+      let score = 0;
+      memoryTerms[index].forEach(term => {
+        if (queryTerms.has(term)) {
+          score += Math.log(1 + memories.length / (documentFrequency.get(term) ?? 1));
+        }
+      });
+      return { memory, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map(({ memory }) => memory);
+};
+
+const SUGGEST_PROMPT =
+  "You help an assistant remember things across conversations. From the conversation below, list lasting facts " +
+  "about the user, their preferences, their team or their projects that would help in future chats. Skip " +
+  "anything temporary or already known. Write each fact as one short sentence on its own line starting with " +
+  '"- ". Reply with NONE if there is nothing worth remembering.';
+
+interface SuggestRequest {
+  connection: ProviderConnection;
+  model: string;
+  messages: Message[];
+  /** Facts already remembered, so they are not suggested again */
+  known: Memory[];
+  /** Tokens the transcript may use; the oldest messages are cut to fit */
+  budget: number;
+  signal?: AbortSignal;
+}
+
+/** Asks the model for facts from `messages` worth remembering */
+export const suggestMemories = async ({ connection, model, messages, known, budget, signal }: SuggestRequest) => {
+  const { kept } = fitToContext(messages, budget, false);
+  const transcript = kept.map(message => `${message.isUser ? "User" : "Assistant"}: ${message.content}`).join("\n\n");
+  const knownList = known.map(memory => `- ${memory.content}`).join("\n");
+
+  const { content } = await streamChatCompletion(
+    {
+      connection,
+      model,
+      messages: [
+        { role: "system", content: SUGGEST_PROMPT },
+        { role: "user", content: knownList ? `Already known:\n${knownList}\n\nConversation:\n\n${transcript}` : transcript },
+      ],
+      params: { ...DEFAULT_GENERATION_PARAMS, temperature: 0.2, max_tokens: 400 },
+      signal,
+    },
+    () => undefined
+  );
+
+  return content
+    .split("\n")
+    .map(line => line.trim())
+    .filter(line => line.startsWith("- "))
+    .map(line => line.slice(2).trim())
+    .filter(Boolean);
+};
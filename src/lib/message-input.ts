@@ -0,0 +1,10 @@
+export const MAX_MESSAGE_LENGTH = 4000;
+
+export const sanitizeInput = (text: string): string => {
+  // Remove potential script tags and other dangerous content
+  return text
+    .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+    .replace(/javascript:/gi, '')
+    .replace(/on\w+="[^"]*"/gi, '')
+    .trim();
+};
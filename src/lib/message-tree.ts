@@ -0,0 +1,40 @@
+import type { Message } from "@/types/chat";
+
+/**
+ * Conversations are trees: every message points at the one it replies to,
+ * and regenerated replies or edited prompts become siblings. The messages
+ * array keeps creation order, which is also the order siblings are listed in.
+ */
+
+export const getChildren = (messages: Message[], parentId: string | null): Message[] =>
+  messages.filter(msg => msg.parentId === parentId);
+
+export const getSiblings = (messages: Message[], message: Message): Message[] =>
+  getChildren(messages, message.parentId);
+
+/** Messages from the root down to `leafId`, in reading order */
+export const getActivePath = (messages: Message[], leafId: string | null): Message[] => {
+  const byId = new Map(messages.map(msg => [msg.id, msg]));
+  const path: Message[] = [];
+  let current = leafId ? byId.get(leafId) : undefined;
+
+  while (current) {
+    path.unshift(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+
+  return path;
+};
+
+/** Follows the newest child from `id` down to the end of that branch */
+export const findLatestLeaf = (messages: Message[], id: string): string => {
+  let leafId = id;
+  let children = getChildren(messages, leafId);
+
+  while (children.length > 0) {
+    leafId = children[children.length - 1].id;
+    children = getChildren(messages, leafId);
+  }
+
+  return leafId;
+};
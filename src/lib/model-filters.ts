@@ -0,0 +1,45 @@
+import type { ModelInfo } from "@/types/models";
+
+export type PriceFilter = "all" | "free" | "paid";
+
+export interface ModelFilters {
+  price: PriceFilter;
+  /** Minimum context window in tokens, 0 for any */
+  minContextLength: number;
+  /** Required input modality such as "image", or "any" */
+  modality: string;
+  /** Maximum prompt price in USD per million tokens */
+  maxPromptPrice: number;
+}
+
+export const DEFAULT_MODEL_FILTERS: ModelFilters = {
+  price: "all",
+  minContextLength: 0,
+  modality: "any",
+  maxPromptPrice: Infinity,
+};
+
+export const isFreeModel = (model: ModelInfo) => model.pricing.prompt === 0 && model.pricing.completion === 0;
+
+export const pricePerMillion = (pricePerToken: number) => pricePerToken * 1_000_000;
+
+export const filterModels = (models: ModelInfo[], filters: ModelFilters): ModelInfo[] =>
+  models.filter(model => {
+    if (filters.price === "free" && !isFreeModel(model)) return false;
+    if (filters.price === "paid" && isFreeModel(model)) return false;
+    if (model.contextLength < filters.minContextLength) return false;
+    if (filters.modality !== "any" && !model.inputModalities.includes(filters.modality)) return false;
+    if (pricePerMillion(model.pricing.prompt) > filters.maxPromptPrice) return false;
+    return true;
+  });
+
+export const formatContextLength = (tokens: number) =>
+  tokens >= 1_000_000 ? `${+(tokens / 1_000_000).toFixed(1)}M` : `${Math.round(tokens / 1000)}K`;
+
+export const formatModelPrice = (model: ModelInfo) =>
+  isFreeModel(model)
+    ? "Free"
+    : `$${+pricePerMillion(model.pricing.prompt).toFixed(2)} / $${+pricePerMillion(model.pricing.completion).toFixed(2)} per 1M`;
+
+/** Short display name for a model id, e.g. "deepseek-chat-v3.1:free" */
+export const shortModelName = (modelId: string) => modelId.split("/").pop() ?? modelId;
@@ -0,0 +1,47 @@
+import type { GenerationParams } from "@/lib/generation-params";
+
+/**
+ * Reusable starting points for new chats. A persona sets the conversation's
+ * system prompt and, optionally, its model, parameters and welcome text.
+ */
+
+export interface Persona {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  /** Shown as the first message instead of the default greeting */
+  welcome?: string;
+  /** Model for chats started with this persona; the default model when unset */
+  model?: string;
+  /** Parameter overrides for chats started with this persona */
+  params?: GenerationParams;
+}
+
+export const DEFAULT_WELCOME = "Hello! I'm DeepSeek AI. How can I assist you today?";
+
+export const BUILT_IN_PERSONAS: Persona[] = [
+  {
+    id: "code-reviewer",
+    name: "Code reviewer",
+    systemPrompt:
+      "You are a senior engineer reviewing code. Point out bugs, security issues and unclear naming first, then " +
+      "smaller style issues. Quote the lines you refer to and suggest concrete fixes. Say so when the code looks fine.",
+    welcome: "Paste a diff or a file and I'll review it.",
+  },
+  {
+    id: "translator",
+    name: "Translator",
+    systemPrompt:
+      "You are a translator. Translate the user's text into the language they ask for, or into English when they " +
+      "do not say. Keep the tone, formatting and placeholders intact and reply with the translation only.",
+    welcome: "What should I translate, and into which language?",
+  },
+  {
+    id: "sql-helper",
+    name: "SQL helper",
+    systemPrompt:
+      "You help write and debug SQL for PostgreSQL unless told otherwise. Ask for the schema when it matters, " +
+      "prefer readable queries with explicit joins, and mention indexes that would help.",
+    welcome: "Describe your tables and what you want to query.",
+  },
+];
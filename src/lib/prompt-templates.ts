@@ -0,0 +1,151 @@
+import { createId } from "@/lib/utils";
+
+/**
+ * Reusable prompts with `{{variables}}`. Variables are found in the body;
+ * their type and default are kept alongside so the fill-in form can offer
+ * the right input.
+ */
+
+export type TemplateVariableType = "text" | "multiline" | "number" | "select";
+
+export const TEMPLATE_VARIABLE_TYPES: { value: TemplateVariableType; label: string }[] = [
+  { value: "text", label: "Text" },
+  { value: "multiline", label: "Long text" },
+  { value: "number", label: "Number" },
+  { value: "select", label: "Choice" },
+];
+
+export interface TemplateVariable {
+  name: string;
+  type: TemplateVariableType;
+  defaultValue: string;
+  /** Choices offered by a select variable */
+  options?: string[];
+}
+
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  /** Free-form grouping; empty for uncategorized */
+  category: string;
+  body: string;
+  variables: TemplateVariable[];
+}
+
+export const DEFAULT_PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    id: "explain-error",
+    name: "Explain an error",
+    category: "Debugging",
+    body: "I get this error in {{language}}:\n\n{{error}}\n\nExplain what causes it and how to fix it.",
+    variables: [
+      { name: "language", type: "select", defaultValue: "TypeScript", options: ["TypeScript", "Python", "SQL", "Go"] },
+      { name: "error", type: "multiline", defaultValue: "" },
+    ],
+  },
+  {
+    id: "summarize-text",
+    name: "Summarize text",
+    category: "Writing",
+    body: "Summarize the following in at most {{sentences}} sentences for {{audience}}:\n\n{{text}}",
+    variables: [
+      { name: "sentences", type: "number", defaultValue: "3" },
+      { name: "audience", type: "text", defaultValue: "a non-technical reader" },
+      { name: "text", type: "multiline", defaultValue: "" },
+    ],
+  },
+];
+
+const LIBRARY_FILE_VERSION = 1;
+
+const VARIABLE_PATTERN = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/** Variable names in the order they first appear in `body` */
+export const extractVariableNames = (body: string) => [...new Set(Array.from(body.matchAll(VARIABLE_PATTERN), match => match[1]))];
+
+/** Keeps the settings of variables still in `body` and adds text variables for new ones */
+export const syncVariables = (body: string, variables: TemplateVariable[]): TemplateVariable[] =>
+  extractVariableNames(body).map(
+    name => variables.find(variable => variable.name === name) ?? { name, type: "text", defaultValue: "" }
+  );
+
+export const getDefaultValues = (template: PromptTemplate): Record<string, string> =>
+  Object.fromEntries(
+    template.variables.map(variable => [
+      variable.name,
+      variable.defaultValue || (variable.type === "select" ? variable.options?.[0] ?? "" : ""),
+    ])
+  );
+
+export const fillTemplate = (body: string, values: Record<string, string>) =>
+  body.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+/** Templates whose name, category or body contain every word of `query` */
+export const searchTemplates = (templates: PromptTemplate[], query: string, category: string | null) => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  return templates.filter(template => {
+    if (category !== null && template.category !== category) return false;
+    const text = `${template.name} ${template.category} ${template.body}`.toLowerCase();
+    return words.every(word => text.includes(word));
+  });
+};
+
+export const getCategories = (templates: PromptTemplate[]) =>
+  [...new Set(templates.map(template => template.category).filter(Boolean))].sort((a, b) => a.localeCompare(b));
+
+export const exportTemplates = (templates: PromptTemplate[]) =>
+  JSON.stringify({ version: LIBRARY_FILE_VERSION, templates }, null, 2);
+
+const isString = (value: unknown): value is string => typeof value === "string";
+
+const parseVariable = (value: unknown): TemplateVariable | null => {
+  if (!value || typeof value !== "object") return null;
+  const { name, type, defaultValue, options } = value as Record<string, unknown>;
+  if (!isString(name)) return null;
+  return {
+    name,
+    type: TEMPLATE_VARIABLE_TYPES.some(option => option.value === type) ? (type as TemplateVariableType) : "text",
+    defaultValue: isString(defaultValue) ? defaultValue : "",
+    options: Array.isArray(options) ? options.filter(isString) : undefined,
+  };
+};
+
+/**
+ * Reads a library file written by `exportTemplates`. Throws with a
+ * user-facing message when the file is not one; entries that are missing
+ * a name or body are skipped.
+ */
+export const parseTemplateFile = (text: string): PromptTemplate[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+
+  const templates = (data as { templates?: unknown } | null)?.templates;
+  if (!Array.isArray(templates)) {
+    throw new Error("The file does not contain a prompt library.");
+  }
+
+  return templates.flatMap(entry => {
+    if (!entry || typeof entry !== "object") return [];
+    const { id, name, category, body, variables } = entry as Record<string, unknown>;
+    if (!isString(name) || !isString(body)) return [];
+
+    const parsed = Array.isArray(variables) ? variables.map(parseVariable).filter(variable => variable !== null) : [];
+    return [{
+      id: isString(id) ? id : createId(),
+      name,
+      category: isString(category) ? category : "",
+      body,
+      variables: syncVariables(body, parsed),
+    }];
+  });
+};
+
+/** Adds imported templates to the library, replacing ones with the same id */
+export const mergeTemplates = (library: PromptTemplate[], imported: PromptTemplate[]) => {
+  const importedIds = new Set(imported.map(template => template.id));
+  return [...library.filter(template => !importedIds.has(template.id)), ...imported];
+};
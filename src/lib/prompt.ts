@@ -0,0 +1,135 @@
+import { countHistoryTokens, fitToContext, type ContextStrategy } from "@/lib/context-window";
+import { countMessageTokens } from "@/lib/tokens";
+import type { ChatCompletionMessage, ConversationSummary, Message } from "@/types/chat";
+
+/** Turns the active branch into the messages sent with a request */
+
+/**
+ * Failed replies with nothing in them are not part of what the model sees,
+ * and neither is the welcome message at the root, which the model never wrote
+ */
+export const isSendable = (message: Message) =>
+  (message.isUser || message.parentId !== null) && (!message.error || Boolean(message.content));
+
+/** Share of the budget the prompt may reach before older turns are summarized */
+const SUMMARIZE_AT = 0.8;
+/** Share of the budget recent turns are cut down to, so summaries are not redone every turn */
+const SUMMARIZE_DOWN_TO = 0.5;
+
+export const toChatMessages = (history: Message[]): ChatCompletionMessage[] =>
+  history.map(message => ({
+    role: message.isUser ? "user" : "assistant",
+    content: message.content,
+  }));
+
+const toSummaryMessage = (summary: string): ChatCompletionMessage => ({
+  role: "system",
+  content: `Summary of the earlier part of this conversation, which is no longer shown in full:\n\n${summary}`,
+});
+
+/**
+ * Splits `history` at the message the summary runs through. A summary made
+ * on another branch does not cover this one and is ignored.
+ */
+export const applySummary = (history: Message[], summary: ConversationSummary | undefined) => {
+  const index = summary ? history.findIndex(message => message.id === summary.throughId) : -1;
+  return index >= 0 ? { summary, recent: history.slice(index + 1) } : { summary: undefined, recent: history };
+};
+
+/** Global instructions merged into the system prompt of every chat */
+export interface CustomInstructions {
+  aboutMe: string;
+  howToRespond: string;
+}
+
+export const EMPTY_CUSTOM_INSTRUCTIONS: CustomInstructions = { aboutMe: "", howToRespond: "" };
+
+export const hasCustomInstructions = ({ aboutMe, howToRespond }: CustomInstructions) =>
+  Boolean(aboutMe.trim() || howToRespond.trim());
+
+/**
+ * The chat's own prompt followed by the custom instructions, when they
+ * apply, and any remembered facts picked for the message being answered
+ */
+export const assembleSystemPrompt = (
+  systemPrompt: string | undefined,
+  instructions?: CustomInstructions,
+  memories: string[] = []
+) =>
+  [
+    systemPrompt?.trim(),
+    instructions?.aboutMe.trim() && `About the user:\n${instructions.aboutMe.trim()}`,
+    instructions?.howToRespond.trim() && `How to respond:\n${instructions.howToRespond.trim()}`,
+    memories.length > 0 && `Things you remember from earlier conversations:\n${memories.map(memory => `- ${memory}`).join("\n")}`,
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+
+const toSystemMessages = (systemPrompt: string | undefined): ChatCompletionMessage[] =>
+  systemPrompt?.trim() ? [{ role: "system", content: systemPrompt.trim() }] : [];
+
+const countSystemTokens = (system: ChatCompletionMessage[]) =>
+  system.reduce((total, message) => total + countMessageTokens(message), 0);
+
+interface PromptOptions {
+  history: Message[];
+  strategy: ContextStrategy;
+  /** Conversation instructions, sent first */
+  systemPrompt?: string;
+  /** Running summary of earlier turns, used with the summarize strategy */
+  summary?: ConversationSummary;
+}
+
+/** Tokens the next prompt will use before anything is left out */
+export const countPromptTokens = ({ history, strategy, systemPrompt, summary }: PromptOptions) => {
+  const sendable = history.filter(isSendable);
+  const systemTokens = countSystemTokens(toSystemMessages(systemPrompt));
+  if (strategy !== "summarize") return systemTokens + countHistoryTokens(sendable);
+
+  const applied = applySummary(sendable, summary);
+  const summaryTokens = applied.summary ? countMessageTokens(toSummaryMessage(applied.summary.content)) : 0;
+  return systemTokens + summaryTokens + countHistoryTokens(applied.recent);
+};
+
+interface BuildPromptOptions extends PromptOptions {
+  /** Tokens the prompt may use */
+  budget: number;
+  /**
+   * Folds `dropped` into the previous summary and stores the result;
+   * null sends the prompt with the summary as it was
+   */
+  summarize: (dropped: Message[], previous: string | undefined) => Promise<string | null>;
+}
+
+export const buildPrompt = async ({ history, budget: totalBudget, strategy, systemPrompt, summary, summarize }: BuildPromptOptions) => {
+  const sendable = history.filter(isSendable);
+  const system = toSystemMessages(systemPrompt);
+  // The system prompt is always sent, so the conversation gets what is left
+  const budget = totalBudget - countSystemTokens(system);
+  if (strategy !== "summarize") {
+    return [...system, ...toChatMessages(fitToContext(sendable, budget, strategy === "keep-pinned").kept)];
+  }
+
+  const applied = applySummary(sendable, summary);
+  const previous = applied.summary?.content;
+  const withSummary = (content: string | undefined, recent: Message[]) => [
+    ...system,
+    ...(content ? [toSummaryMessage(content)] : []),
+    ...toChatMessages(recent),
+  ];
+
+  const summaryTokens = previous ? countMessageTokens(toSummaryMessage(previous)) : 0;
+  if (summaryTokens + countHistoryTokens(applied.recent) <= budget * SUMMARIZE_AT) {
+    return withSummary(previous, applied.recent);
+  }
+
+  // Near the limit: fold the older of the recent turns into the summary
+  const { kept, dropped } = fitToContext(applied.recent, Math.floor(budget * SUMMARIZE_DOWN_TO), false);
+  const updated = dropped.length > 0 ? await summarize(dropped, previous) : null;
+  if (updated) {
+    return withSummary(updated, kept);
+  }
+
+  // Without a new summary, leave out whatever does not fit next to the old one
+  return withSummary(previous, fitToContext(applied.recent, budget - summaryTokens, false).kept);
+};
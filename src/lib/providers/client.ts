@@ -0,0 +1,269 @@
+import { readSseData } from "@/lib/sse";
+import { toRequestParams, type GenerationParams } from "@/lib/generation-params";
+import type { ChatCompletionMessage } from "@/types/chat";
+import type { ModelInfo } from "@/types/models";
+import { getProvider } from "./registry";
+import type { ProviderConnection } from "./types";
+
+interface ChatCompletionRequest {
+  connection: ProviderConnection;
+  model: string;
+  /** Tried in order when `model` is unavailable */
+  fallbackModels?: string[];
+  messages: ChatCompletionMessage[];
+  params: GenerationParams;
+  signal?: AbortSignal;
+}
+
+export interface ChatCompletionResult {
+  content: string;
+  /** Model that actually answered */
+  model: string;
+}
+
+interface StreamChunk {
+  model?: string;
+  choices?: { delta?: { content?: string | null }; finish_reason?: string | null }[];
+  error?: { message?: string; code?: number | string };
+}
+
+interface ProviderErrorDetails {
+  status?: number;
+  /** How long the server asked us to wait before trying again */
+  retryAfterMs?: number;
+  /** Machine-readable cause, e.g. "truncated" or a finish reason like "content_filter" */
+  code?: string;
+  /** The server's own explanation, used to classify the failure but never shown */
+  serverMessage?: string;
+}
+
+/** A failed request, with what the server said about it */
+export class ProviderError extends Error {
+  readonly status?: number;
+  readonly retryAfterMs?: number;
+  readonly code?: string;
+  readonly serverMessage?: string;
+
+  constructor(message: string, { status, retryAfterMs, code, serverMessage }: ProviderErrorDetails = {}) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+    this.code = code;
+    this.serverMessage = serverMessage;
+  }
+
+  /** Rate limits and server errors that may succeed when tried again */
+  get isTransient() {
+    return this.status === 429 || (this.status !== undefined && this.status >= 500);
+  }
+}
+
+const getErrorMessage = (status: number): string => {
+  // Handle different error types without exposing details
+  if (status === 401) {
+    return "Authentication failed. Please check your API key.";
+  } else if (status === 429) {
+    return "Rate limit exceeded. Please try again later.";
+  }
+  return "Service temporarily unavailable. Please try again.";
+};
+
+const parseRetryAfter = (headers: Headers): number | undefined => {
+  const retryAfter = headers.get("Retry-After");
+  if (retryAfter) {
+    // Either a number of seconds or an HTTP date
+    const seconds = Number(retryAfter);
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  // OpenRouter reports when the rate-limit window resets in epoch milliseconds
+  const resetAt = Number(headers.get("X-RateLimit-Reset"));
+  if (resetAt > 0) return Math.max(0, resetAt - Date.now());
+
+  return undefined;
+};
+
+const readServerMessage = async (response: Response): Promise<string | undefined> => {
+  try {
+    const body = (await response.json()) as { error?: { message?: string } };
+    return body.error?.message;
+  } catch {
+    return undefined;
+  }
+};
+
+const toProviderError = async (response: Response) =>
+  new ProviderError(getErrorMessage(response.status), {
+    status: response.status,
+    retryAfterMs: parseRetryAfter(response.headers),
+    serverMessage: await readServerMessage(response),
+  });
+
+const getHeaders = (connection: ProviderConnection) => ({
+  ...getProvider(connection.providerId).getHeaders(connection),
+  "Content-Type": "application/json",
+});
+
+const request = (connection: ProviderConnection, path: string, init: RequestInit) =>
+  (getProvider(connection.providerId).fetch ?? fetch)(`${connection.baseUrl}${path}`, {
+    ...init,
+    headers: getHeaders(connection),
+  });
+
+const streamOnce = async (
+  connection: ProviderConnection,
+  body: Record<string, unknown>,
+  signal: AbortSignal | undefined,
+  onDelta: (delta: string) => void
+): Promise<{ content: string; model?: string }> => {
+  const response = await request(connection, "/chat/completions", {
+    method: "POST",
+    body: JSON.stringify({ ...body, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw await toProviderError(response);
+  }
+
+  let content = "";
+  let model: string | undefined;
+  let finished = false;
+
+  for await (const data of readSseData(response.body)) {
+    if (data === "[DONE]") {
+      finished = true;
+      break;
+    }
+
+    let chunk: StreamChunk;
+    try {
+      chunk = JSON.parse(data);
+    } catch {
+      continue;
+    }
+
+    // Errors after the response has started arrive as a regular frame
+    if (chunk.error) {
+      const { message, code } = chunk.error;
+      throw new ProviderError("The model stopped responding. Please try again.", {
+        status: typeof code === "number" ? code : undefined,
+        code: typeof code === "string" ? code : undefined,
+        serverMessage: message,
+      });
+    }
+
+    model ??= chunk.model;
+    const choice = chunk.choices?.[0];
+    if (choice?.finish_reason === "content_filter") {
+      throw new ProviderError("The reply was blocked by the provider's content filter.", { code: "content_filter" });
+    }
+    if (choice?.finish_reason) {
+      finished = true;
+    }
+
+    const delta = choice?.delta?.content;
+    if (delta) {
+      content += delta;
+      onDelta(delta);
+    }
+  }
+
+  // The connection dropped before the server said the reply was complete
+  if (!finished) {
+    throw new ProviderError("The response was cut off. Please try again.", { code: "truncated" });
+  }
+
+  return { content, model };
+};
+
+// Servers may report a model without the variant suffix it was requested
+// with, e.g. "deepseek/deepseek-chat-v3.1" for "deepseek/deepseek-chat-v3.1:free"
+const matchRequestedModel = (requested: string[], reported: string | undefined) => {
+  if (!reported) return requested[0];
+  const base = (id: string) => id.split(":")[0];
+  return requested.find(id => id === reported) ?? requested.find(id => base(id) === base(reported)) ?? reported;
+};
+
+/** Whether a failure on one model is worth trying the next fallback for */
+const canFallBack = (error: unknown) =>
+  error instanceof ProviderError ? error.isTransient || error.status === 404 : error instanceof TypeError;
+
+/**
+ * Sends a streaming chat completion request and calls `onDelta` with each
+ * piece of content as it arrives. Resolves with the full reply once the
+ * server marks it finished, and throws if the stream closes before that.
+ *
+ * Fallback models go to providers that support them as OpenRouter's
+ * `models` list; for others each one is tried in turn until one answers,
+ * as long as no part of a reply has arrived yet.
+ */
+export const streamChatCompletion = async (
+  { connection, model, fallbackModels = [], messages, params, signal }: ChatCompletionRequest,
+  onDelta: (delta: string) => void
+): Promise<ChatCompletionResult> => {
+  const chain = [model, ...fallbackModels.filter(id => id !== model)];
+  const body = { messages, ...toRequestParams(params) };
+
+  if (chain.length > 1 && getProvider(connection.providerId).capabilities.modelFallbacks) {
+    const result = await streamOnce(connection, { ...body, model, models: chain }, signal, onDelta);
+    return { content: result.content, model: matchRequestedModel(chain, result.model) };
+  }
+
+  let receivedContent = false;
+  const trackDelta = (delta: string) => {
+    receivedContent = true;
+    onDelta(delta);
+  };
+
+  for (const [index, candidate] of chain.entries()) {
+    try {
+      const result = await streamOnce(connection, { ...body, model: candidate }, signal, trackDelta);
+      return { content: result.content, model: candidate };
+    } catch (error) {
+      const isLast = index === chain.length - 1;
+      if (isLast || receivedContent || signal?.aborted || !canFallBack(error)) throw error;
+    }
+  }
+
+  // Unreachable: the last model either answers or throws
+  throw new ProviderError("No model was available.");
+};
+
+/** Throws with a user-facing message when the key is malformed or rejected */
+export const validateConnection = async (connection: ProviderConnection) => {
+  const provider = getProvider(connection.providerId);
+  if (provider.capabilities.requiresApiKey && !connection.apiKey) {
+    throw new Error(`${provider.label} requires an API key.`);
+  }
+
+  const formatError = connection.apiKey ? provider.checkKeyFormat(connection.apiKey) : null;
+  if (formatError) {
+    throw new Error(formatError);
+  }
+
+  let response: Response;
+  try {
+    // Test the connection with a simple request
+    response = await request(connection, "/models", {});
+  } catch {
+    throw new Error(`Could not reach ${connection.baseUrl}. Please check the URL and your connection.`);
+  }
+
+  if (!response.ok) {
+    throw new Error("Invalid API key. Please check your key and try again.");
+  }
+};
+
+export const fetchModels = async (connection: ProviderConnection): Promise<ModelInfo[]> => {
+  const response = await request(connection, "/models", {});
+
+  if (!response.ok) {
+    throw await toProviderError(response);
+  }
+
+  return getProvider(connection.providerId).parseModels(await response.json());
+};
@@ -0,0 +1,41 @@
+/** How the offline mock provider behaves; kept in app settings */
+export interface MockProviderOptions {
+  /** "script" replays `script` in order; "echo" repeats the last user message */
+  replySource: "script" | "echo";
+  /** Replies separated by lines containing only "---" */
+  script: string;
+  /** Delay before the response starts */
+  latencyMs: number;
+  /** Streaming speed in words per second; 0 sends the reply at once */
+  wordsPerSecond: number;
+  failure: MockFailure;
+}
+
+export type MockFailure = "none" | "401" | "429" | "500" | "truncated" | "stream-error";
+
+export const MOCK_FAILURES: { value: MockFailure; label: string }[] = [
+  { value: "none", label: "None" },
+  { value: "401", label: "401 Unauthorized" },
+  { value: "429", label: "429 Rate limited" },
+  { value: "500", label: "500 Server error" },
+  { value: "truncated", label: "Truncated stream" },
+  { value: "stream-error", label: "Error mid-stream" },
+];
+
+export const DEFAULT_MOCK_SCRIPT = [
+  "Hello! I'm the offline mock provider. Nothing you send leaves this device.",
+  "---",
+  "Here is some **Markdown** to check rendering:\n\n- a list item\n- `inline code`\n\n```ts\nconst greet = (name: string) => `Hello, ${name}!`;\n```",
+  "---",
+  "A longer reply is useful for watching the stream and trying the Stop button. " +
+    "Each word arrives separately at the configured speed, so this sentence takes a while to finish " +
+    "and leaves plenty of time to cancel it halfway through.",
+].join("\n");
+
+export const DEFAULT_MOCK_PROVIDER_OPTIONS: MockProviderOptions = {
+  replySource: "script",
+  script: DEFAULT_MOCK_SCRIPT,
+  latencyMs: 500,
+  wordsPerSecond: 20,
+  failure: "none",
+};
@@ -0,0 +1,169 @@
+import { getSettings } from "@/lib/settings";
+import type { ChatCompletionMessage } from "@/types/chat";
+import type { ModelInfo } from "@/types/models";
+import type { MockProviderOptions } from "./mock-options";
+import type { ChatProvider } from "./types";
+
+/**
+ * A provider that never touches the network. Requests go through a fake
+ * `fetch` that answers with real `Response` objects, so the SSE parsing and
+ * error handling paths run exactly as they do against a live service.
+ */
+
+const RELIABLE_MOCK_MODEL = "mock/reliable";
+
+const MOCK_MODELS: ModelInfo[] = [
+  {
+    id: "mock/scripted",
+    name: "Mock: Scripted",
+    description: "Offline replies from the mock provider settings",
+    contextLength: 32_000,
+    pricing: { prompt: 0, completion: 0 },
+    inputModalities: ["text"],
+  },
+  {
+    id: "mock/premium",
+    name: "Mock: Premium",
+    description: "Same replies, listed with a price to exercise paid-model UI",
+    contextLength: 200_000,
+    pricing: { prompt: 0.000003, completion: 0.000015 },
+    inputModalities: ["text", "image"],
+  },
+  {
+    id: RELIABLE_MOCK_MODEL,
+    name: "Mock: Reliable",
+    description: "Ignores simulated failures, handy as a fallback model",
+    contextLength: 32_000,
+    pricing: { prompt: 0, completion: 0 },
+    inputModalities: ["text"],
+  },
+];
+
+const HTTP_FAILURES: Partial<Record<MockProviderOptions["failure"], { status: number; message: string }>> = {
+  "401": { status: 401, message: "Mock: invalid API key" },
+  "429": { status: 429, message: "Mock: rate limit exceeded" },
+  "500": { status: 500, message: "Mock: internal server error" },
+};
+
+/** Seconds a mocked 429 asks the client to wait */
+const MOCK_RETRY_AFTER_SECONDS = 5;
+
+let scriptPosition = 0;
+
+const abortError = () => new DOMException("The request was aborted.", "AbortError");
+
+const wait = (ms: number, signal?: AbortSignal | null) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
+
+const jsonResponse = (body: unknown, init?: ResponseInit) =>
+  new Response(JSON.stringify(body), {
+    ...init,
+    headers: { "Content-Type": "application/json", ...init?.headers },
+  });
+
+const pickReply = (options: MockProviderOptions, messages: ChatCompletionMessage[]): string => {
+  const replies = options.script
+    .split(/^---$/m)
+    .map(reply => reply.trim())
+    .filter(Boolean);
+
+  if (options.replySource === "script" && replies.length > 0) {
+    return replies[scriptPosition++ % replies.length];
+  }
+
+  const lastUserMessage = [...messages].reverse().find(message => message.role === "user");
+  return `You said: ${lastUserMessage?.content ?? "(nothing)"}`;
+};
+
+const sseFrame = (data: unknown) => `data: ${typeof data === "string" ? data : JSON.stringify(data)}\n\n`;
+
+const streamReply = (reply: string, model: string, options: MockProviderOptions, signal?: AbortSignal | null) => {
+  const encoder = new TextEncoder();
+  // Keep the whitespace with each word so the reply reassembles exactly
+  const words = reply.match(/\S+\s*|\s+/g) ?? [];
+  const delayMs = options.wordsPerSecond > 0 ? 1000 / options.wordsPerSecond : 0;
+  const cutOff = options.failure === "truncated" || options.failure === "stream-error" ? Math.ceil(words.length / 2) : words.length;
+
+  return new ReadableStream<Uint8Array>({
+    async start(controller) {
+      try {
+        for (const word of words.slice(0, cutOff)) {
+          if (delayMs) await wait(delayMs, signal);
+          controller.enqueue(encoder.encode(sseFrame({ model, choices: [{ delta: { content: word }, finish_reason: null }] })));
+        }
+
+        if (options.failure === "stream-error") {
+          controller.enqueue(encoder.encode(sseFrame({ error: { message: "Mock: the model stopped mid-reply", code: 502 } })));
+        } else if (options.failure !== "truncated") {
+          controller.enqueue(encoder.encode(sseFrame({ model, choices: [{ delta: {}, finish_reason: "stop" }] })));
+          controller.enqueue(encoder.encode(sseFrame("[DONE]")));
+        }
+        // A truncated stream simply ends without a finish reason or [DONE]
+        controller.close();
+      } catch (error) {
+        controller.error(error);
+      }
+    },
+  });
+};
+
+const mockFetch: typeof fetch = async (input, init) => {
+  const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+  const signal = init?.signal;
+  const { model = "", messages = [] } = JSON.parse(String(init?.body ?? "{}")) as {
+    model?: string;
+    messages?: ChatCompletionMessage[];
+  };
+  const settings = getSettings().mockProvider;
+  const options = model === RELIABLE_MOCK_MODEL ? { ...settings, failure: "none" as const } : settings;
+
+  await wait(options.latencyMs, signal);
+
+  const failure = HTTP_FAILURES[options.failure];
+  if (failure) {
+    return jsonResponse(
+      { error: { message: failure.message, code: failure.status } },
+      {
+        status: failure.status,
+        headers: failure.status === 429 ? { "Retry-After": String(MOCK_RETRY_AFTER_SECONDS) } : undefined,
+      }
+    );
+  }
+
+  if (url.endsWith("/models")) {
+    return jsonResponse({ data: MOCK_MODELS });
+  }
+
+  if (url.endsWith("/chat/completions")) {
+    const reply = pickReply(options, messages);
+    return new Response(streamReply(reply, model, options, signal), {
+      headers: { "Content-Type": "text/event-stream" },
+    });
+  }
+
+  return jsonResponse({ error: { message: "Mock: unknown endpoint", code: 404 } }, { status: 404 });
+};
+
+export const mockProvider: ChatProvider = {
+  id: "mock",
+  label: "Offline mock",
+  defaultBaseUrl: "mock://offline/v1",
+  keyPlaceholder: "Not needed",
+  capabilities: {
+    modelMetadata: true,
+    requiresApiKey: false,
+    customBaseUrl: false,
+    modelFallbacks: false,
+  },
+  checkKeyFormat: () => null,
+  getHeaders: () => ({}),
+  parseModels: (body) => (body as { data: ModelInfo[] }).data,
+  fetch: mockFetch,
+};
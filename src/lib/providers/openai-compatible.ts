@@ -0,0 +1,36 @@
+import type { ModelInfo } from "@/types/models";
+import type { ChatProvider } from "./types";
+
+interface OpenAIModel {
+  id: string;
+  owned_by?: string;
+}
+
+// The OpenAI model list carries no pricing or context length, so models
+// are treated as free with an unknown (0) context window
+const toModelInfo = (model: OpenAIModel): ModelInfo => ({
+  id: model.id,
+  name: model.id,
+  description: model.owned_by,
+  contextLength: 0,
+  pricing: { prompt: 0, completion: 0 },
+  inputModalities: ["text"],
+});
+
+/** Self-hosted vLLM, LM Studio, Ollama's /v1 and other OpenAI-style servers */
+export const openAICompatibleProvider: ChatProvider = {
+  id: "openai-compatible",
+  label: "OpenAI-compatible",
+  defaultBaseUrl: "http://localhost:11434/v1",
+  keyPlaceholder: "Optional for local servers",
+  capabilities: {
+    modelMetadata: false,
+    requiresApiKey: false,
+    customBaseUrl: true,
+    modelFallbacks: false,
+  },
+  checkKeyFormat: (apiKey) => (/\s/.test(apiKey) ? "API keys cannot contain spaces." : null),
+  // Local servers usually ignore auth, so the header is only sent with a key
+  getHeaders: ({ apiKey }) => (apiKey ? { "Authorization": `Bearer ${apiKey}` } : {}),
+  parseModels: (body) => ((body as { data?: OpenAIModel[] }).data ?? []).map(toModelInfo),
+};
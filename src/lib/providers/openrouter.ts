@@ -0,0 +1,45 @@
+import type { ModelInfo } from "@/types/models";
+import type { ChatProvider } from "./types";
+
+interface OpenRouterModel {
+  id: string;
+  name: string;
+  description?: string;
+  context_length: number;
+  pricing: { prompt: string; completion: string };
+  architecture?: { input_modalities?: string[]; modality?: string };
+}
+
+const toModelInfo = (model: OpenRouterModel): ModelInfo => ({
+  id: model.id,
+  name: model.name,
+  description: model.description,
+  contextLength: model.context_length,
+  pricing: {
+    prompt: Number(model.pricing.prompt) || 0,
+    completion: Number(model.pricing.completion) || 0,
+  },
+  inputModalities: model.architecture?.input_modalities ?? [model.architecture?.modality?.split("->")[0] ?? "text"],
+});
+
+export const openRouterProvider: ChatProvider = {
+  id: "openrouter",
+  label: "OpenRouter",
+  defaultBaseUrl: "https://openrouter.ai/api/v1",
+  keyPlaceholder: "sk-or-v1-...",
+  capabilities: {
+    modelMetadata: true,
+    requiresApiKey: true,
+    customBaseUrl: false,
+    modelFallbacks: true,
+  },
+  // OpenRouter API keys start with "sk-or-v1-"
+  checkKeyFormat: (apiKey) =>
+    apiKey.startsWith("sk-or-v1-") ? null : "Invalid API key format. OpenRouter API keys should start with 'sk-or-v1-'",
+  getHeaders: ({ apiKey }) => ({
+    "Authorization": `Bearer ${apiKey}`,
+    "HTTP-Referer": window.location.origin,
+    "X-Title": "AI Chat Interface",
+  }),
+  parseModels: (body) => (body as { data: OpenRouterModel[] }).data.map(toModelInfo),
+};
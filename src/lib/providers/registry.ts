@@ -0,0 +1,17 @@
+import { mockProvider } from "./mock";
+import { openAICompatibleProvider } from "./openai-compatible";
+import { openRouterProvider } from "./openrouter";
+import type { ChatProvider, ProviderConnection, ProviderId, ProviderSettings } from "./types";
+
+export const PROVIDERS: ChatProvider[] = [openRouterProvider, openAICompatibleProvider, mockProvider];
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = { providerId: "openrouter" };
+
+export const getProvider = (id: ProviderId): ChatProvider =>
+  PROVIDERS.find(provider => provider.id === id) ?? openRouterProvider;
+
+export const toConnection = (settings: ProviderSettings, apiKey: string): ProviderConnection => {
+  const provider = getProvider(settings.providerId);
+  const baseUrl = provider.capabilities.customBaseUrl && settings.baseUrl ? settings.baseUrl : provider.defaultBaseUrl;
+  return { providerId: provider.id, baseUrl: baseUrl.replace(/\/+$/, ""), apiKey };
+};
@@ -0,0 +1,44 @@
+import type { ModelInfo } from "@/types/models";
+
+export type ProviderId = "openrouter" | "openai-compatible" | "mock";
+
+/** Non-secret part of a key profile describing where requests go */
+export interface ProviderSettings {
+  providerId: ProviderId;
+  /** Overrides the provider's default base URL, e.g. "http://localhost:11434/v1" */
+  baseUrl?: string;
+}
+
+/** Everything needed to make a request on behalf of one profile */
+export interface ProviderConnection {
+  providerId: ProviderId;
+  baseUrl: string;
+  /** May be empty for servers that do not check keys */
+  apiKey: string;
+}
+
+export interface ProviderCapabilities {
+  /** The model list includes pricing, context length and modalities */
+  modelMetadata: boolean;
+  /** Requests fail without a key */
+  requiresApiKey: boolean;
+  /** Requests can go to a user-supplied base URL */
+  customBaseUrl: boolean;
+  /** Accepts an ordered `models` list and falls back server-side */
+  modelFallbacks: boolean;
+}
+
+export interface ChatProvider {
+  id: ProviderId;
+  label: string;
+  defaultBaseUrl: string;
+  keyPlaceholder: string;
+  capabilities: ProviderCapabilities;
+  /** Returns a user-facing message when the key cannot belong to this provider */
+  checkKeyFormat: (apiKey: string) => string | null;
+  getHeaders: (connection: ProviderConnection) => Record<string, string>;
+  /** Maps the body of `GET {baseUrl}/models` */
+  parseModels: (body: unknown) => ModelInfo[];
+  /** Replaces the network, used by the offline mock */
+  fetch?: typeof fetch;
+}
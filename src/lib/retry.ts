@@ -0,0 +1,94 @@
+import { ProviderError } from "@/lib/providers";
+
+/**
+ * Automatic retries for requests that failed with a rate limit, a server
+ * error or a dropped connection. Waits grow exponentially with jitter
+ * unless the server says how long to wait.
+ */
+
+export const MAX_ATTEMPTS = 4;
+const BASE_DELAY_MS = 1000;
+const MAX_BACKOFF_MS = 30_000;
+/** Longer server-requested waits (e.g. a daily quota) are reported instead of waited out */
+const MAX_RETRY_AFTER_MS = 60_000;
+
+export interface RetryState {
+  /** The attempt that will run once the wait is over */
+  attempt: number;
+  maxAttempts: number;
+  /** Epoch milliseconds when the next attempt starts */
+  retryAt: number;
+  reason: string;
+}
+
+interface RetryOptions {
+  signal: AbortSignal;
+  /** Checked before each retry, e.g. to give up once part of a reply arrived */
+  canRetry: () => boolean;
+  /**
+   * Called when a wait starts, with a callback that ends it early, and with
+   * null once the next attempt begins.
+   */
+  onWait: (retry: RetryState | null, retryNow?: () => void) => void;
+}
+
+const isRetryable = (error: unknown) =>
+  // fetch rejects with a TypeError when the network request itself fails
+  error instanceof ProviderError ? error.isTransient : error instanceof TypeError;
+
+const describeRetryReason = (error: unknown) => {
+  if (error instanceof ProviderError && error.status === 429) return "Rate limited";
+  if (error instanceof ProviderError) return "Service unavailable";
+  return "Connection failed";
+};
+
+/** Milliseconds to wait before the given retry, or null when it should not be retried */
+export const getRetryDelay = (error: unknown, attempt: number): number | null => {
+  if (!isRetryable(error)) return null;
+
+  const retryAfterMs = error instanceof ProviderError ? error.retryAfterMs : undefined;
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= MAX_RETRY_AFTER_MS ? retryAfterMs : null;
+  }
+
+  // Keep at least half the backoff and spread the rest so clients do not retry in lockstep
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return backoff / 2 + Math.random() * (backoff / 2);
+};
+
+const waitForRetry = (ms: number, signal: AbortSignal, onStart: (retryNow: () => void) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", abort);
+      resolve();
+    };
+    const abort = () => {
+      clearTimeout(timer);
+      reject(new DOMException("The request was aborted.", "AbortError"));
+    };
+
+    const timer = setTimeout(finish, ms);
+    signal.addEventListener("abort", abort, { once: true });
+    onStart(finish);
+  });
+
+export const withRetry = async <T>(run: () => Promise<T>, { signal, canRetry, onWait }: RetryOptions): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await run();
+    } catch (error) {
+      const delayMs = attempt < MAX_ATTEMPTS && !signal.aborted && canRetry() ? getRetryDelay(error, attempt) : null;
+      if (delayMs === null) throw error;
+
+      const retry: RetryState = {
+        attempt: attempt + 1,
+        maxAttempts: MAX_ATTEMPTS,
+        retryAt: Date.now() + delayMs,
+        reason: describeRetryReason(error),
+      };
+      await waitForRetry(delayMs, signal, retryNow => onWait(retry, retryNow));
+      onWait(null);
+    }
+  }
+};
@@ -0,0 +1,99 @@
+import { DEFAULT_GENERATION_PARAMS, type GenerationParams } from "@/lib/generation-params";
+import type { ContextStrategy } from "@/lib/context-window";
+import { BUILT_IN_PERSONAS, type Persona } from "@/lib/personas";
+import { EMPTY_CUSTOM_INSTRUCTIONS, type CustomInstructions } from "@/lib/prompt";
+import { DEFAULT_PROMPT_TEMPLATES, type PromptTemplate } from "@/lib/prompt-templates";
+import { DEFAULT_MOCK_PROVIDER_OPTIONS, type MockProviderOptions } from "@/lib/providers/mock-options";
+
+/**
+ * App-wide preferences kept in localStorage. Reads are cached and every
+ * change notifies subscribers, including changes made in other tabs.
+ */
+
+export const DEFAULT_MODEL = "deepseek/deepseek-chat-v3.1:free";
+
+export interface AppSettings {
+  defaultModel: string;
+  favoriteModels: string[];
+  /** Defaults for conversations that do not override them */
+  generationParams: GenerationParams;
+  /** Assistant replies are always rendered as Markdown; this opts user messages in too */
+  renderUserMarkdown: boolean;
+  /** Lock after this many minutes without input; 0 disables */
+  autoLockMinutes: number;
+  /** Lock once the tab has been hidden this many minutes; 0 disables */
+  lockWhenHiddenMinutes: number;
+  /** What to do when a conversation outgrows the model's context window */
+  contextStrategy: ContextStrategy;
+  /** Behavior of the offline mock provider */
+  mockProvider: MockProviderOptions;
+  /** Persona library offered when starting a new chat */
+  personas: Persona[];
+  /** Added to every chat's system prompt unless the chat opts out */
+  customInstructions: CustomInstructions;
+  /** Send relevant remembered facts along with each message */
+  memoryEnabled: boolean;
+  /** Saved prompts offered from the message box */
+  promptTemplates: PromptTemplate[];
+}
+
+const SETTINGS_STORAGE_KEY = "app_settings";
+
+const DEFAULT_SETTINGS: AppSettings = {
+  defaultModel: DEFAULT_MODEL,
+  favoriteModels: [DEFAULT_MODEL],
+  generationParams: DEFAULT_GENERATION_PARAMS,
+  renderUserMarkdown: false,
+  autoLockMinutes: 15,
+  lockWhenHiddenMinutes: 5,
+  contextStrategy: "drop-oldest",
+  mockProvider: DEFAULT_MOCK_PROVIDER_OPTIONS,
+  personas: BUILT_IN_PERSONAS,
+  customInstructions: EMPTY_CUSTOM_INSTRUCTIONS,
+  memoryEnabled: true,
+  promptTemplates: DEFAULT_PROMPT_TEMPLATES,
+};
+
+const listeners = new Set<() => void>();
+let cachedSettings: AppSettings | null = null;
+
+const readSettings = (): AppSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    // Merge over the defaults so settings added later get a value
+    return stored ? { ...DEFAULT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_SETTINGS;
+  } catch {
+    return DEFAULT_SETTINGS;
+  }
+};
+
+export const getSettings = (): AppSettings => {
+  if (!cachedSettings) {
+    cachedSettings = readSettings();
+  }
+  return cachedSettings;
+};
+
+export const updateSettings = (changes: Partial<AppSettings>) => {
+  cachedSettings = { ...getSettings(), ...changes };
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(cachedSettings));
+  } catch {
+    // Keep the in-memory value when storage is full or unavailable
+  }
+  listeners.forEach(listener => listener());
+};
+
+export const subscribeToSettings = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+window.addEventListener("storage", (event) => {
+  if (event.key === SETTINGS_STORAGE_KEY) {
+    cachedSettings = null;
+    listeners.forEach(listener => listener());
+  }
+});
@@ -0,0 +1,63 @@
+/**
+ * Minimal server-sent events reader for fetch response bodies.
+ *
+ * Yields the `data` payload of every event in the stream. Comment lines
+ * (": OPENROUTER PROCESSING" keep-alives) and fields other than `data`
+ * are ignored, and multi-line data fields are joined with "\n" as the
+ * EventSource spec describes.
+ */
+export async function* readSseData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let dataLines: string[] = [];
+
+  const flushEvent = () => {
+    if (dataLines.length === 0) return null;
+    const data = dataLines.join("\n");
+    dataLines = [];
+    return data;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      let newlineIndex: number;
+      while ((newlineIndex = buffer.search(/\r\n|\r|\n/)) !== -1) {
+        const line = buffer.slice(0, newlineIndex);
+        const separatorLength = buffer.startsWith("\r\n", newlineIndex) ? 2 : 1;
+        buffer = buffer.slice(newlineIndex + separatorLength);
+
+        if (line === "") {
+          const data = flushEvent();
+          if (data !== null) yield data;
+          continue;
+        }
+
+        if (line.startsWith(":")) continue;
+
+        const colonIndex = line.indexOf(":");
+        const field = colonIndex === -1 ? line : line.slice(0, colonIndex);
+        let value = colonIndex === -1 ? "" : line.slice(colonIndex + 1);
+        if (value.startsWith(" ")) value = value.slice(1);
+
+        if (field === "data") {
+          dataLines.push(value);
+        }
+      }
+
+      if (done) break;
+    }
+
+    // A stream may end without the trailing blank line
+    if (buffer.startsWith("data:")) {
+      dataLines.push(buffer.slice(5).replace(/^ /, ""));
+    }
+    const data = flushEvent();
+    if (data !== null) yield data;
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,77 @@
+import { DEFAULT_GENERATION_PARAMS } from "@/lib/generation-params";
+import { streamChatCompletion, type ProviderConnection } from "@/lib/providers";
+import { countMessageTokens } from "@/lib/tokens";
+import type { Message } from "@/types/chat";
+
+/** Room the summary may take in the prompt */
+export const SUMMARY_MAX_TOKENS = 600;
+
+const SUMMARY_PROMPT =
+  "You keep a running summary of a chat. You are given the summary so far, if there is one, followed by newer " +
+  "messages. Write a single updated summary that can replace both. Keep decisions, facts, names, numbers, code " +
+  "identifiers and open questions. Write plain prose under 300 words and do not add anything that was not said.";
+
+interface SummarizeRequest {
+  connection: ProviderConnection;
+  model: string;
+  messages: Message[];
+  /** Summary of the turns before `messages`, which the new one extends */
+  previousSummary?: string;
+  /** Tokens a request may use; messages that do not fit are folded in over several requests */
+  budget: number;
+  signal?: AbortSignal;
+}
+
+/** The oldest messages that fit in `room`, and always at least one */
+const takeFitting = (messages: Message[], room: number) => {
+  let tokens = 0;
+  const index = messages.findIndex((message, i) => {
+    tokens += countMessageTokens(message);
+    return i > 0 && tokens > room;
+  });
+  return index === -1 ? messages : messages.slice(0, index);
+};
+
+const requestSummary = async (
+  { connection, model, signal }: SummarizeRequest,
+  messages: Message[],
+  previousSummary: string | undefined
+) => {
+  const transcript = messages.map(message => `${message.isUser ? "User" : "Assistant"}: ${message.content}`).join("\n\n");
+  const input = previousSummary ? `Summary so far:\n\n${previousSummary}\n\nNewer messages:\n\n${transcript}` : transcript;
+
+  const { content } = await streamChatCompletion(
+    {
+      connection,
+      model,
+      messages: [
+        { role: "system", content: SUMMARY_PROMPT },
+        { role: "user", content: input },
+      ],
+      params: { ...DEFAULT_GENERATION_PARAMS, temperature: 0.2, max_tokens: SUMMARY_MAX_TOKENS },
+      signal,
+    },
+    () => undefined
+  );
+  return content.trim();
+};
+
+/**
+ * Asks the model for a summary of `messages`, folded into `previousSummary`.
+ * When they are too long for one request they are summarized in order, a
+ * batch at a time, so none are left out. Returns an empty string if the
+ * model gave no summary.
+ */
+export const summarizeMessages = async (request: SummarizeRequest) => {
+  let summary = request.previousSummary;
+  let remaining = request.messages;
+
+  while (remaining.length > 0) {
+    // The previous summary is at most SUMMARY_MAX_TOKENS long as well
+    const batch = takeFitting(remaining, request.budget - SUMMARY_MAX_TOKENS * (summary ? 2 : 1));
+    summary = await requestSummary(request, batch, summary);
+    if (!summary) return "";
+    remaining = remaining.slice(batch.length);
+  }
+  return summary ?? "";
+};
@@ -0,0 +1,45 @@
+import type { ChatCompletionMessage } from "@/types/chat";
+
+/**
+ * Token estimates for prompt budgeting. Models use different tokenizers, so
+ * cl100k stands in for all of them; until it has loaded, counts fall back
+ * to roughly four characters per token.
+ */
+
+/** Role markers and separators each chat message adds on top of its text */
+const MESSAGE_OVERHEAD_TOKENS = 4;
+const CACHE_LIMIT = 2000;
+
+let encoderCount: ((text: string) => number) | null = null;
+let loading: Promise<void> | null = null;
+const cache = new Map<string, number>();
+
+/** Loads the tokenizer in its own chunk; resolves once counts are exact */
+export const loadTokenizer = () => {
+  loading ??= import("gpt-tokenizer/encoding/cl100k_base").then(({ countTokens }) => {
+    encoderCount = countTokens;
+    cache.clear();
+  });
+  return loading;
+};
+
+export const isTokenizerLoaded = () => encoderCount !== null;
+
+export const countTokens = (text: string): number => {
+  if (!encoderCount) return Math.ceil(text.length / 4);
+
+  let count = cache.get(text);
+  if (count === undefined) {
+    count = encoderCount(text);
+    // Messages are recounted on every render, so remember recent ones
+    if (cache.size >= CACHE_LIMIT) cache.clear();
+    cache.set(text, count);
+  }
+  return count;
+};
+
+export const countMessageTokens = (message: Pick<ChatCompletionMessage, "content">) =>
+  countTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+
+export const formatTokenCount = (tokens: number) =>
+  tokens >= 1000 ? `${+(tokens / 1000).toFixed(1)}K` : String(tokens);
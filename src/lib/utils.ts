@@ -4,3 +4,18 @@ import { twMerge } from "tailwind-merge";
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function createId() {
+  return crypto.randomUUID();
+}
+
+/** Saves `text` as a file through the browser's download prompt */
+export function downloadText(name: string, text: string, type: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = name;
+  link.click();
+  // Some browsers start the download after click() returns, so the URL has to outlive it
+  setTimeout(() => URL.revokeObjectURL(url));
+}
@@ -1,7 +1,62 @@
+import { useEffect } from "react";
+import { useLocation, useNavigate, useParams } from "react-router-dom";
 import { ChatInterface } from "@/components/ChatInterface";
+import { ConversationSidebar } from "@/components/ConversationSidebar";
+import { SidebarInset, SidebarProvider } from "@/components/ui/sidebar";
+import { getConversation, getLastConversationId } from "@/lib/conversation-store";
+
+interface ConversationLocationState {
+  isNew?: boolean;
+  personaId?: string;
+}
 
 const Index = () => {
-  return <ChatInterface />;
+  const { conversationId } = useParams();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { isNew = false, personaId } = (location.state as ConversationLocationState | null) ?? {};
+
+  // "/" resumes the last conversation, or starts a new one
+  useEffect(() => {
+    if (conversationId) return;
+
+    getLastConversationId()
+      .then(id => (id ? getConversation(id) : undefined))
+      .catch(() => undefined)
+      .then(conversation => navigate(conversation ? `/c/${conversation.id}` : "/new", { replace: true }));
+  }, [conversationId, navigate]);
+
+  const handleNewChat = (personaId?: string) => {
+    navigate("/new", { state: { personaId } });
+  };
+
+  const handleConversationDeleted = (id: string) => {
+    if (id === conversationId) {
+      navigate("/new", { replace: true });
+    }
+  };
+
+  return (
+    <SidebarProvider>
+      <ConversationSidebar
+        activeConversationId={conversationId ?? null}
+        onSelectConversation={(id) => navigate(`/c/${id}`)}
+        onNewChat={() => handleNewChat()}
+        onConversationDeleted={handleConversationDeleted}
+      />
+      <SidebarInset>
+        {conversationId && (
+          <ChatInterface
+            key={conversationId}
+            conversationId={conversationId}
+            isNew={isNew}
+            personaId={personaId}
+            onNewChat={handleNewChat}
+          />
+        )}
+      </SidebarInset>
+    </SidebarProvider>
+  );
 };
 
 export default Index;
@@ -0,0 +1,10 @@
+import { Navigate, useLocation } from "react-router-dom";
+import { createId } from "@/lib/utils";
+
+const NewChat = () => {
+  // Carries the persona picked for the chat over to the conversation
+  const personaId = (useLocation().state as { personaId?: string } | null)?.personaId;
+  return <Navigate to={`/c/${createId()}`} state={{ isNew: true, personaId }} replace />;
+};
+
+export default NewChat;
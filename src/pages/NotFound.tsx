@@ -1,7 +1,11 @@
 import { useLocation } from "react-router-dom";
 import { useEffect } from "react";
 
-const NotFound = () => {
+interface NotFoundProps {
+  message?: string;
+}
+
+const NotFound = ({ message = "Oops! Page not found" }: NotFoundProps) => {
   const location = useLocation();
 
   useEffect(() => {
@@ -12,7 +16,7 @@ const NotFound = () => {
     <div className="flex min-h-screen items-center justify-center bg-gray-100">
       <div className="text-center">
         <h1 className="mb-4 text-4xl font-bold">404</h1>
-        <p className="mb-4 text-xl text-gray-600">Oops! Page not found</p>
+        <p className="mb-4 text-xl text-gray-600">{message}</p>
         <a href="/" className="text-blue-500 underline hover:text-blue-700">
           Return to Home
         </a>
@@ -0,0 +1,176 @@
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ApiKeyProfilesCard } from "@/components/ApiKeyProfilesCard";
+import { MockProviderCard } from "@/components/MockProviderCard";
+import { PersonasCard } from "@/components/PersonasCard";
+import { PromptTemplatesCard } from "@/components/PromptTemplatesCard";
+import { CustomInstructionsCard } from "@/components/CustomInstructionsCard";
+import { ModelPicker } from "@/components/ModelPicker";
+import { GenerationSettingsPanel } from "@/components/GenerationSettingsPanel";
+import { useSettings } from "@/hooks/use-settings";
+import { CONTEXT_STRATEGIES, type ContextStrategy } from "@/lib/context-window";
+import { useApiKey, useProviderConnection } from "@/hooks/use-api-key";
+import { ArrowLeft, Settings as SettingsIcon } from "lucide-react";
+
+const LOCK_TIMEOUT_OPTIONS = [0, 1, 5, 15, 30, 60];
+
+const formatLockTimeout = (minutes: number) =>
+  minutes === 0 ? "Never" : minutes === 60 ? "1 hour" : `${minutes} minute${minutes === 1 ? "" : "s"}`;
+
+const Settings = () => {
+  const [settings, updateSettings] = useSettings();
+  const connection = useProviderConnection();
+  const { profiles } = useApiKey();
+  const usesMockProvider = profiles.some(profile => profile.provider.providerId === "mock");
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="flex items-center gap-2 p-4 border-b border-border bg-card">
+        <Button variant="ghost" size="icon" asChild>
+          <Link to="/" aria-label="Back to chat">
+            <ArrowLeft className="h-4 w-4" />
+          </Link>
+        </Button>
+        <SettingsIcon className="h-6 w-6 text-primary" />
+        <h1 className="text-xl font-semibold text-foreground">Settings</h1>
+      </div>
+
+      <div className="mx-auto flex max-w-2xl flex-col items-center gap-6 p-4">
+        <ApiKeyProfilesCard />
+
+        {usesMockProvider && <MockProviderCard />}
+
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Default Model</CardTitle>
+            <CardDescription>Used for new conversations. Each chat can pick its own model from the header.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ModelPicker
+              connection={connection}
+              value={settings.defaultModel}
+              onChange={(defaultModel) => updateSettings({ defaultModel })}
+              className="w-full max-w-none"
+            />
+          </CardContent>
+        </Card>
+
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Generation Defaults</CardTitle>
+            <CardDescription>Sampling parameters for every chat that does not override them.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <GenerationSettingsPanel
+              value={settings.generationParams}
+              onChange={(generationParams) => updateSettings({ generationParams })}
+            />
+          </CardContent>
+        </Card>
+
+        <CustomInstructionsCard />
+
+        <PersonasCard />
+
+        <PromptTemplatesCard />
+
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Long Conversations</CardTitle>
+            <CardDescription>What happens once a chat no longer fits in the model's context window.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="context_strategy">When the context is full</Label>
+              <Select
+                value={settings.contextStrategy}
+                onValueChange={(contextStrategy) => updateSettings({ contextStrategy: contextStrategy as ContextStrategy })}
+              >
+                <SelectTrigger id="context_strategy" className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CONTEXT_STRATEGIES.map(strategy => (
+                    <SelectItem key={strategy.value} value={strategy.value}>
+                      {strategy.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {CONTEXT_STRATEGIES.find(strategy => strategy.value === settings.contextStrategy)?.description}
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Security</CardTitle>
+            <CardDescription>Locking forgets the decrypted keys until the passphrase is entered again.</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="auto_lock">Lock after inactivity</Label>
+              <Select
+                value={String(settings.autoLockMinutes)}
+                onValueChange={(minutes) => updateSettings({ autoLockMinutes: Number(minutes) })}
+              >
+                <SelectTrigger id="auto_lock" className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOCK_TIMEOUT_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {formatLockTimeout(minutes)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="lock_when_hidden">Lock when tab is hidden for</Label>
+              <Select
+                value={String(settings.lockWhenHiddenMinutes)}
+                onValueChange={(minutes) => updateSettings({ lockWhenHiddenMinutes: Number(minutes) })}
+              >
+                <SelectTrigger id="lock_when_hidden" className="w-[140px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {LOCK_TIMEOUT_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>
+                      {formatLockTimeout(minutes)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="w-full max-w-md">
+          <CardHeader>
+            <CardTitle>Display</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="render_user_markdown">Render my messages as Markdown</Label>
+              <Switch
+                id="render_user_markdown"
+                checked={settings.renderUserMarkdown}
+                onCheckedChange={(renderUserMarkdown) => updateSettings({ renderUserMarkdown })}
+              />
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
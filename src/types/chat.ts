@@ -0,0 +1,79 @@
+import type { GenerationParams } from "@/lib/generation-params";
+import type { RetryState } from "@/lib/retry";
+
+export type ChatErrorKind =
+  | "auth"
+  | "rate-limit"
+  | "network"
+  | "content-filter"
+  | "context-overflow"
+  | "server"
+  | "unknown";
+
+export interface ChatError {
+  kind: ChatErrorKind;
+  message: string;
+}
+
+export interface Message {
+  id: string;
+  /** The message this one replies to; null for the first message */
+  parentId: string | null;
+  content: string;
+  isUser: boolean;
+  timestamp: Date;
+  isStreaming?: boolean;
+  /** Generation was cancelled by the user before the reply finished */
+  isStopped?: boolean;
+  /** Model that produced an assistant reply */
+  model?: string;
+  /** Model that was asked for when a fallback produced the reply instead */
+  fallbackFrom?: string;
+  /** Always sent to the model when older messages are left out */
+  pinned?: boolean;
+  /** Remembered facts that were sent along when this reply was asked for */
+  memoryIds?: string[];
+  /** Why the reply failed; the message may still hold a partial reply */
+  error?: ChatError;
+  /** Set while a failed request waits to be retried */
+  retry?: RetryState;
+}
+
+export interface ChatCompletionMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+/** Running summary that stands in for the earlier turns of a long chat */
+export interface ConversationSummary {
+  content: string;
+  /** Newest message the summary covers; everything up to it is replaced */
+  throughId: string;
+  updatedAt: Date;
+}
+
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  pinned?: boolean;
+  /** Model used for new replies; falls back to the default model in settings */
+  model?: string;
+  /** Tried in order when the model above is unavailable */
+  fallbackModels?: string[];
+  /** Instructions sent ahead of every request in this conversation */
+  systemPrompt?: string;
+  /** Leaves the global custom instructions out of this chat's system prompt */
+  ignoreCustomInstructions?: boolean;
+  /** Persona the chat was started with */
+  personaId?: string;
+  /** Overrides the default generation parameters for this conversation */
+  params?: GenerationParams;
+  /** API key profile used for this chat; follows the active profile when unset */
+  profileId?: string;
+  /** Condensed earlier turns, sent in their place with the summarize strategy */
+  summary?: ConversationSummary;
+  /** Last message of the branch currently shown */
+  activeLeafId?: string;
+}
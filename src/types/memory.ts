@@ -0,0 +1,9 @@
+/** A fact the assistant is told about in every chat it seems relevant to */
+export interface Memory {
+  id: string;
+  content: string;
+  createdAt: Date;
+  updatedAt: Date;
+  /** Conversation the fact was suggested from */
+  conversationId?: string;
+}
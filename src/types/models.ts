@@ -0,0 +1,12 @@
+export interface ModelInfo {
+  id: string;
+  name: string;
+  description?: string;
+  contextLength: number;
+  /** USD per token */
+  pricing: {
+    prompt: number;
+    completion: number;
+  };
+  inputModalities: string[];
+}
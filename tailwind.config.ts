@@ -1,4 +1,5 @@
 import type { Config } from "tailwindcss";
+import typography from "@tailwindcss/typography";
 
 export default {
   darkMode: ["class"],
@@ -65,6 +66,10 @@ export default {
           input: "hsl(var(--chat-input))",
           "input-foreground": "hsl(var(--chat-input-foreground))",
         },
+        code: {
+          DEFAULT: "hsl(var(--code))",
+          foreground: "hsl(var(--code-foreground))",
+        },
       },
       borderRadius: {
         lg: "var(--radius)",
@@ -93,7 +98,30 @@ export default {
         "accordion-down": "accordion-down 0.2s ease-out",
         "accordion-up": "accordion-up 0.2s ease-out",
       },
+      typography: {
+        // Chat bubbles set their own foreground colors, so prose inherits them
+        chat: {
+          css: {
+            "--tw-prose-body": "currentColor",
+            "--tw-prose-headings": "currentColor",
+            "--tw-prose-lead": "currentColor",
+            "--tw-prose-links": "currentColor",
+            "--tw-prose-bold": "currentColor",
+            "--tw-prose-counters": "currentColor",
+            "--tw-prose-bullets": "currentColor",
+            "--tw-prose-hr": "hsl(var(--border))",
+            "--tw-prose-quotes": "currentColor",
+            "--tw-prose-quote-borders": "hsl(var(--border))",
+            "--tw-prose-captions": "currentColor",
+            "--tw-prose-code": "currentColor",
+            "--tw-prose-pre-code": "hsl(var(--foreground))",
+            "--tw-prose-pre-bg": "hsl(var(--muted) / 0.2)",
+            "--tw-prose-th-borders": "hsl(var(--border))",
+            "--tw-prose-td-borders": "hsl(var(--border))",
+          },
+        },
+      },
     },
   },
-  plugins: [require("tailwindcss-animate")],
+  plugins: [require("tailwindcss-animate"), typography],
 } satisfies Config;